@@ -1,74 +1,12 @@
-import React, { useMemo, Suspense } from 'react';
-import { useLoader } from '@react-three/fiber';
-import { TextureLoader, NearestFilter, RepeatWrapping } from 'three';
+import React, { useMemo } from 'react';
 import type { Block as BlockType } from '../types/game';
 import { BLOCK_TYPES } from '../types/game';
+import { getBlockAtlasMaterial, getBlockBoxGeometry } from '../utils/blockAtlasTexture';
 
 interface BlockProps {
   block: BlockType;
 }
 
-// Fallback block component without textures
-const FallbackBlock: React.FC<BlockProps> = ({ block }) => {
-  // Define fallback colors for different block types
-  const getBlockColor = (type: number) => {
-    switch (type) {
-      case 1: return '#8B4513'; // Dirt - brown
-      case 2: return '#228B22'; // Grass - green  
-      case 3: return '#808080'; // Stone - gray
-      case 4: return '#654321'; // Wood - brown
-      case 5: return '#32CD32'; // Leaves - light green
-      default: return '#8B4513'; // Default brown
-    }
-  };
-  
-  const color = getBlockColor(block.type);
-  
-  return (
-    <mesh position={[block.x, block.y, block.z]}>
-      <boxGeometry args={[1, 1, 1]} />
-      <meshLambertMaterial color={color} />
-    </mesh>
-  );
-};
-
-// Textured block component
-const TexturedBlock: React.FC<BlockProps> = ({ block }) => {
-  const blockType = BLOCK_TYPES[block.type];
-  
-  const textures = useLoader(TextureLoader, [
-    blockType.textureTop,
-    blockType.textureSide,
-    blockType.textureBottom,
-  ]);
-
-  // Configure textures for pixel art look
-  useMemo(() => {
-    textures.forEach(texture => {
-      texture.magFilter = NearestFilter;
-      texture.minFilter = NearestFilter;
-      texture.wrapS = RepeatWrapping;
-      texture.wrapT = RepeatWrapping;
-    });
-  }, [textures]);
-
-  const materials = useMemo(() => [
-    <meshLambertMaterial key="right" map={textures[1]} />, // Right
-    <meshLambertMaterial key="left" map={textures[1]} />, // Left
-    <meshLambertMaterial key="top" map={textures[0]} />, // Top
-    <meshLambertMaterial key="bottom" map={textures[2]} />, // Bottom
-    <meshLambertMaterial key="front" map={textures[1]} />, // Front
-    <meshLambertMaterial key="back" map={textures[1]} />, // Back
-  ], [textures]);
-
-  return (
-    <mesh position={[block.x, block.y, block.z]}>
-      <boxGeometry args={[1, 1, 1]} />
-      {materials}
-    </mesh>
-  );
-};
-
 export const Block: React.FC<BlockProps> = ({ block }) => {
   if (block.type === 0) {
     return null; // Don't render air blocks
@@ -80,10 +18,13 @@ export const Block: React.FC<BlockProps> = ({ block }) => {
     return null;
   }
 
+  // Textures come from the shared block atlas, which fills in as its images load
   return (
-    <Suspense fallback={<FallbackBlock block={block} />}>
-      <TexturedBlock block={block} />
-    </Suspense>
+    <mesh
+      position={[block.x, block.y, block.z]}
+      geometry={getBlockBoxGeometry(block.type)}
+      material={getBlockAtlasMaterial()}
+    />
   );
 };interface ChunkProps {
   blocks: BlockType[];
@@ -0,0 +1,232 @@
+// Block breaking and placing for worlds backed by the shared `world`
+import React, { useCallback, useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { world } from '../utils/world';
+import { raycastVoxels } from '../utils/voxelRaycast';
+import type { VoxelHit } from '../utils/voxelRaycast';
+import { createRandom } from '../utils/seed';
+import { getBreakTime } from '../utils/blockBreaking';
+import type { GameState } from '../types/game';
+import { WORLD_HEIGHT } from '../types/game';
+import { boxIntersectsBlock, createEntityBox } from '../utils/aabbCollision';
+import { isFluid } from '../utils/fluids';
+import { TICK_PHASE, simulation } from '../utils/simulation';
+import { PLAYER_HEIGHT, PLAYER_WIDTH } from './StablePlayerController';
+
+export const REACH_DISTANCE = 5; // Blocks
+const CRACK_STAGES = 10;
+const CRACK_TEXTURE_SIZE = 16;
+
+// Would a block at (x, y, z) overlap the player standing at `feet`?
+const overlapsPlayer = (feet: [number, number, number], x: number, y: number, z: number): boolean =>
+  boxIntersectsBlock(createEntityBox(feet, PLAYER_WIDTH, PLAYER_HEIGHT), x, y, z);
+
+// Crack textures grow stage by stage: every stage shows the previous cracks plus a few more pixels.
+// Built once from a fixed seed so the pattern is the same every session.
+let crackTextures: THREE.Texture[] | null = null;
+const getCrackTextures = (): THREE.Texture[] => {
+  if (crackTextures) return crackTextures;
+
+  const random = createRandom(0xC7AC);
+  const pixels: Array<[number, number]> = [];
+  for (let crack = 0; crack < 6; crack++) {
+    let x = CRACK_TEXTURE_SIZE / 2;
+    let y = CRACK_TEXTURE_SIZE / 2; // Every crack starts in the middle of the face
+    for (let i = 0; i < 10; i++) {
+      x = Math.max(0, Math.min(CRACK_TEXTURE_SIZE - 1, x + Math.round(random() * 2 - 1)));
+      y = Math.max(0, Math.min(CRACK_TEXTURE_SIZE - 1, y + Math.round(random() * 2 - 1)));
+      pixels.push([x, y]);
+    }
+  }
+  // Reveal pixels from the centre outwards so every crack grows a little each stage
+  const centre = CRACK_TEXTURE_SIZE / 2;
+  pixels.sort((a, b) => Math.hypot(a[0] - centre, a[1] - centre) - Math.hypot(b[0] - centre, b[1] - centre));
+
+  crackTextures = Array.from({ length: CRACK_STAGES }, (_, stage) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = CRACK_TEXTURE_SIZE;
+    canvas.height = CRACK_TEXTURE_SIZE;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.fillStyle = 'rgba(0,0,0,0.75)';
+      pixels.slice(0, Math.ceil(pixels.length * (stage + 1) / CRACK_STAGES))
+        .forEach(([x, y]) => context.fillRect(x, y, 1, 1));
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.NearestFilter;
+    return texture;
+  });
+  return crackTextures;
+};
+
+// Slightly larger than a block so the outline and cracks never z-fight with its faces
+const selectionGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1.002, 1.002, 1.002));
+const crackGeometry = new THREE.BoxGeometry(1.004, 1.004, 1.004);
+
+interface BlockInteractionProps {
+  selectedBlock: number; // 0 when the held item cannot be placed
+  positionRef: React.MutableRefObject<[number, number, number]>; // Feet; blocks are never placed inside the player
+  heldItemId?: number; // Tools speed up breaking
+  gameMode: GameState['gameMode'];
+  reach?: number;
+  onBlockBroken?: (blockType: number) => void;
+  onBlockPlaced?: (blockType: number) => void;
+  onBlockUsed?: (blockType: number) => boolean; // True when the block handled the right click itself
+  onItemUsed?: () => boolean; // True when the held item handled the right click, e.g. by being eaten
+}
+
+// Outlines the block under the crosshair. Left click breaks it - instantly in creative,
+// by holding for its break time in survival - and right click uses the block or the held item,
+// or places against its face.
+export const BlockInteraction: React.FC<BlockInteractionProps> = ({
+  selectedBlock,
+  positionRef,
+  heldItemId = 0,
+  gameMode,
+  reach = REACH_DISTANCE,
+  onBlockBroken,
+  onBlockPlaced,
+  onBlockUsed,
+  onItemUsed
+}) => {
+  const { camera } = useThree();
+  const target = useRef<VoxelHit | null>(null);
+  const breaking = useRef(false);
+  const breakProgress = useRef<{ key: string; elapsed: number } | null>(null);
+  const selectionRef = useRef<THREE.LineSegments>(null);
+  const crackRef = useRef<THREE.Mesh>(null);
+  const crackMaterial = useRef<THREE.MeshBasicMaterial>(null);
+  const direction = useRef(new THREE.Vector3());
+
+  const breakBlock = useCallback((hit: VoxelHit) => {
+    if (world.setBlock(...hit.position, 0)) onBlockBroken?.(hit.blockType);
+  }, [onBlockBroken]);
+
+  useEffect(() => {
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!document.pointerLockElement) return;
+      const hit = target.current;
+
+      if (event.button === 0) {
+        breaking.current = true;
+        if (hit && gameMode === 'creative') breakBlock(hit);
+      } else if (event.button === 2) {
+        if (hit && onBlockUsed?.(hit.blockType)) return;
+        if (onItemUsed?.() || !hit || selectedBlock <= 0) return;
+
+        const [x, y, z] = hit.adjacent;
+        const replaced = world.getBlock(x, y, z);
+        if (y < 0 || y >= WORLD_HEIGHT || (replaced !== 0 && !isFluid(replaced))) return;
+        if (overlapsPlayer(positionRef.current, x, y, z)) return;
+
+        if (world.setBlock(x, y, z, selectedBlock)) onBlockPlaced?.(selectedBlock);
+      }
+    };
+
+    const handleMouseUp = (event: MouseEvent) => {
+      if (event.button === 0) breaking.current = false;
+    };
+
+    const handleContextMenu = (event: MouseEvent) => {
+      event.preventDefault(); // Right click places instead of opening the menu
+    };
+
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('contextmenu', handleContextMenu);
+
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('contextmenu', handleContextMenu);
+    };
+  }, [camera, gameMode, selectedBlock, breakBlock, onBlockPlaced, onBlockUsed, onItemUsed, positionRef]);
+
+  // Survival break progress advances on the fixed simulation tick, so a long frame or a tab
+  // switch cannot jump it. The listener is registered once and calls the latest render's closure.
+  const tick = (seconds: number) => {
+    const hit = target.current;
+    if (!breaking.current || gameMode !== 'survival' || !hit) {
+      breakProgress.current = null;
+      return;
+    }
+
+    // Progress carries on only while the same block stays under the crosshair
+    const key = hit.position.join(',');
+    if (breakProgress.current?.key !== key) {
+      breakProgress.current = { key, elapsed: 0 };
+    }
+
+    const progress = breakProgress.current;
+    const breakTime = getBreakTime(hit.blockType, heldItemId);
+    if (!Number.isFinite(breakTime)) return;
+    progress.elapsed += seconds;
+    if (progress.elapsed >= breakTime) {
+      breakBlock(hit);
+      breakProgress.current = null;
+    }
+  };
+  const tickRef = useRef(tick);
+
+  useEffect(() => {
+    tickRef.current = tick;
+  });
+
+  useEffect(() => simulation.subscribe((_, seconds) => tickRef.current(seconds), TICK_PHASE.PLAYER), []);
+
+  useFrame(() => {
+    camera.getWorldDirection(direction.current);
+    const hit = raycastVoxels(
+      [camera.position.x, camera.position.y, camera.position.z],
+      [direction.current.x, direction.current.y, direction.current.z],
+      reach,
+      (x, y, z) => {
+        // The ray passes through water and lava to the block behind them
+        const blockType = world.getBlock(x, y, z);
+        return isFluid(blockType) ? 0 : blockType;
+      }
+    );
+    target.current = hit;
+
+    const selection = selectionRef.current;
+    if (selection) {
+      selection.visible = hit !== null;
+      if (hit) selection.position.set(hit.position[0] + 0.5, hit.position[1] + 0.5, hit.position[2] + 0.5);
+    }
+
+    // Losing pointer lock swallows the mouseup, so treat it as a release
+    if (!document.pointerLockElement) breaking.current = false;
+
+    const crack = crackRef.current;
+    const material = crackMaterial.current;
+    if (crack && material) {
+      const current = breakProgress.current;
+      const breakTime = hit ? getBreakTime(hit.blockType, heldItemId) : Infinity;
+      crack.visible = current !== null && current.key === hit?.position.join(',') && current.elapsed > 0 &&
+        Number.isFinite(breakTime);
+      if (crack.visible && hit && current) {
+        const stage = Math.min(CRACK_STAGES - 1, Math.floor(current.elapsed / breakTime * CRACK_STAGES));
+        const texture = getCrackTextures()[stage];
+        if (material.map !== texture) {
+          material.map = texture;
+          material.needsUpdate = true;
+        }
+        crack.position.set(hit.position[0] + 0.5, hit.position[1] + 0.5, hit.position[2] + 0.5);
+      }
+    }
+  });
+
+  return (
+    <>
+      <lineSegments ref={selectionRef} geometry={selectionGeometry} visible={false}>
+        <lineBasicMaterial color="black" transparent opacity={0.6} />
+      </lineSegments>
+      <mesh ref={crackRef} geometry={crackGeometry} visible={false}>
+        <meshBasicMaterial ref={crackMaterial} transparent depthWrite={false} />
+      </mesh>
+    </>
+  );
+};
@@ -1,10 +1,10 @@
 import React, { useMemo, useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { useLoader } from '@react-three/fiber';
-import { TextureLoader, NearestFilter, RepeatWrapping } from 'three';
 import type { Block, Chunk } from '../types/game';
 import { BLOCK_TYPES, CHUNK_SIZE } from '../types/game';
+import { getBlockAtlasTexture } from '../utils/blockAtlasTexture';
+import { getBlockFaceRect } from '../utils/textureAtlas';
 
 // LOD (Level of Detail) settings - Extremely aggressive distance thresholds
 const LOD_LEVELS = 4;          // Increased number of detail levels
@@ -23,33 +23,6 @@ const MAX_BLOCKS_PER_LOD = [
   25     // Level 3: Extremely reduced from 150
 ];
 
-// Texture atlas loader with improved caching
-const TextureCache = new Map<string, THREE.Texture>();
-const useTextureAtlas = () => {
-  const textureUrls = useMemo(() => [
-    '/textures/grass_top.svg',
-    '/textures/grass_side.svg',
-    '/textures/dirt.svg',
-    '/textures/stone.svg',
-    '/textures/log_top.svg',
-    '/textures/log_side.svg',
-    '/textures/leaves.svg'
-  ], []);
-
-  const textures = useLoader(TextureLoader, textureUrls);
-
-  // Configure textures for pixel art look
-  textures.forEach(texture => {
-    texture.magFilter = NearestFilter;
-    texture.minFilter = NearestFilter;
-    texture.generateMipmaps = false; // Disable mipmaps for pixel art
-    texture.wrapS = RepeatWrapping;
-    texture.wrapT = RepeatWrapping;
-  });
-
-  return textures;
-};
-
 // Calculate face visibility efficiently
 const calculateVisibleFaces = (
   blocks: Map<string, Block>,
@@ -264,12 +237,15 @@ const addFaceVertices = (
     vertexOffset, vertexOffset + 2, vertexOffset + 3
   );
   
-  // Add UVs for this face
+  // Add UVs for this face, covering its tile in the block atlas
+  const rect = getBlockFaceRect(block.type, faceIndex === 2 ? 'top' : faceIndex === 3 ? 'bottom' : 'side');
+  const right = rect.u + rect.width;
+  const top = rect.v + rect.height;
   uvs.push(
-    0, 0,
-    0, 1,
-    1, 1,
-    1, 0
+    rect.u, rect.v,
+    rect.u, top,
+    right, top,
+    right, rect.v
   );
 };
 
@@ -280,7 +256,6 @@ export const ChunkLOD: React.FC<{
   chunkX: number, 
   chunkZ: number 
 }> = ({ chunk, playerPosition, chunkX, chunkZ }) => {
-  const textures = useTextureAtlas();
   const meshRefs = useRef<THREE.Mesh[]>([]);
   const lastLodLevel = useRef<number>(-1);
   const geometries = useRef<THREE.BufferGeometry[]>([]);
@@ -372,36 +347,13 @@ export const ChunkLOD: React.FC<{
     }
   };
   
-  // Create materials for each block type
+  // One material textured from the block atlas; per chunk because LOD changes tweak its precision
   const createMaterials = () => {
     if (materials.current.length > 0) return materials.current;
     
-    const blockMaterials = BLOCK_TYPES.map((blockType, index) => {
-      if (index === 0) return null; // Air has no material
-      
-      // Find textures by matching file names
-      const topTexIndex = textures.findIndex(tex => 
-        tex.image?.src?.includes(blockType.textureTop.split('/').pop() || ''));
-      const sideTexIndex = textures.findIndex(tex => 
-        tex.image?.src?.includes(blockType.textureSide.split('/').pop() || ''));
-      const bottomTexIndex = textures.findIndex(tex => 
-        tex.image?.src?.includes(blockType.textureBottom.split('/').pop() || ''));
-      
-      // Get textures or use fallbacks
-      const topTex = topTexIndex >= 0 ? textures[topTexIndex] : textures[0];
-      const sideTex = sideTexIndex >= 0 ? textures[sideTexIndex] : textures[0];
-      const bottomTex = bottomTexIndex >= 0 ? textures[bottomTexIndex] : textures[0];        // Create material array for the six faces of the cube
-      return [
-        new THREE.MeshLambertMaterial({ map: sideTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material, // right
-        new THREE.MeshLambertMaterial({ map: sideTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material, // left
-        new THREE.MeshLambertMaterial({ map: topTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material,  // top
-        new THREE.MeshLambertMaterial({ map: bottomTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material, // bottom
-        new THREE.MeshLambertMaterial({ map: sideTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material, // front
-        new THREE.MeshLambertMaterial({ map: sideTex, transparent: blockType.transparent, alphaTest: 0.1 }) as THREE.Material  // back
-      ];
-    });
+    const blockMaterials = [new THREE.MeshLambertMaterial({ map: getBlockAtlasTexture(), alphaTest: 0.1 })];
     
-    materials.current = blockMaterials.flat().filter((mat): mat is THREE.Material => Boolean(mat));
+    materials.current = blockMaterials;
     return materials.current;
   };
     // Advanced mesh culling and optimization
@@ -497,7 +449,7 @@ export const ChunkLOD: React.FC<{
     
     // Mark the chunk as needing an LOD update
     lastLodLevel.current = -1;
-  }, [chunk, textures]);
+  }, [chunk]);
   
   return (
     <group position={[chunkX * CHUNK_SIZE, 0, chunkZ * CHUNK_SIZE]}>
@@ -0,0 +1,183 @@
+// Chunk renderer drawing one merged BufferGeometry per block type, textured from the block atlas
+import React, { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import type { Chunk } from '../types/game';
+import { BLOCK_TYPES, CHUNK_SIZE, getChunkData } from '../types/game';
+import { buildChunkVolume } from '../utils/chunkMesher';
+import type { MeshSection } from '../utils/chunkMesher';
+import { getBlockAtlasTexture } from '../utils/blockAtlasTexture';
+import { chunkMeshClient } from '../utils/chunkMeshClient';
+import { isFluid } from '../utils/fluids';
+import { graphicsSettings } from '../utils/graphicsSettings';
+import { skyLightUniform } from '../utils/lighting';
+import { world } from '../utils/world';
+
+// See-through fluids draw after every opaque section so the terrain behind them shows
+const WATER_OPACITY = 0.6;
+const isSeeThrough = (blockType: number): boolean =>
+  isFluid(blockType) && (BLOCK_TYPES[blockType]?.transparent ?? false);
+
+// Vertex colours carry sky and block light separately (see MeshSection.colors); light the
+// vertex with whichever is brighter once sky light is scaled for the time of day. UVs count
+// blocks across a merged quad, so each fragment wraps them into the face's atlas tile.
+const patchChunkShader = (shader: THREE.WebGLProgramParametersWithUniforms): void => {
+  shader.uniforms.skyLightMultiplier = skyLightUniform;
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nuniform float skyLightMultiplier;\nattribute vec4 tile;\nvarying vec4 vTile;')
+    .replace(
+      '#include <color_vertex>',
+      '#include <color_vertex>\nvColor = vec3(max(color.r * skyLightMultiplier, color.g));\nvTile = tile;'
+    );
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nvarying vec4 vTile;')
+    .replace(
+      '#include <map_fragment>',
+      'diffuseColor *= texture2D(map, vTile.xy + fract(vMapUv) * vTile.zw);'
+    );
+};
+
+// Shared by every chunk and never disposed
+let opaqueMaterial: THREE.Material | null = null;
+let seeThroughMaterial: THREE.Material | null = null;
+
+const getSectionMaterial = (blockType: number): THREE.Material => {
+  if (isSeeThrough(blockType)) {
+    if (!seeThroughMaterial) {
+      seeThroughMaterial = new THREE.MeshLambertMaterial({
+        map: getBlockAtlasTexture(),
+        vertexColors: true,
+        transparent: true,
+        opacity: WATER_OPACITY,
+        depthWrite: false,
+        side: THREE.DoubleSide // Visible from below the surface too
+      });
+      seeThroughMaterial.onBeforeCompile = patchChunkShader;
+    }
+    return seeThroughMaterial;
+  }
+  if (!opaqueMaterial) {
+    // Cut-out textures such as saplings and torches are see-through where their pixels are
+    opaqueMaterial = new THREE.MeshLambertMaterial({ map: getBlockAtlasTexture(), vertexColors: true, alphaTest: 0.5 });
+    opaqueMaterial.onBeforeCompile = patchChunkShader;
+  }
+  return opaqueMaterial;
+};
+
+const createSectionGeometry = (section: MeshSection): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(section.positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(section.normals, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(section.uvs, 2));
+  geometry.setAttribute('tile', new THREE.BufferAttribute(section.tiles, 4));
+  geometry.setAttribute('color', new THREE.BufferAttribute(section.colors, 3));
+  geometry.setIndex(new THREE.BufferAttribute(section.indices, 1));
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+// Does a block change at world (x, z) touch the border this chunk reads from its neighbours?
+const touchesBorder = (chunk: Chunk, x: number, z: number): boolean => {
+  const localX = x - chunk.x * CHUNK_SIZE;
+  const localZ = z - chunk.z * CHUNK_SIZE;
+  return localX >= -1 && localX <= CHUNK_SIZE && localZ >= -1 && localZ <= CHUNK_SIZE;
+};
+
+interface ChunkMeshProps {
+  chunk: Chunk;
+}
+
+export const ChunkMesh: React.FC<ChunkMeshProps> = ({ chunk }) => {
+  const [sections, setSections] = useState<Array<{ blockType: number; geometry: THREE.BufferGeometry }>>([]);
+  const [neighbourVersion, setNeighbourVersion] = useState(0);
+  const [ambientOcclusion, setAmbientOcclusion] = useState(() => graphicsSettings.current.ambientOcclusion);
+
+  useEffect(() => graphicsSettings.subscribe(options => setAmbientOcclusion(options.ambientOcclusion)), []);
+
+  // Remesh when a neighbour appears, disappears or edits a block along our border, or when
+  // light spreading from elsewhere changes ours. Diagonal neighbours count too: culling and
+  // ambient occlusion read their corner columns.
+  useEffect(() => {
+    return world.subscribe(event => {
+      switch (event.type) {
+        case 'chunkLoaded':
+        case 'chunkUnloaded': {
+          const chunkX = event.type === 'chunkLoaded' ? event.chunk.x : event.chunkX;
+          const chunkZ = event.type === 'chunkLoaded' ? event.chunk.z : event.chunkZ;
+          if (Math.max(Math.abs(chunkX - chunk.x), Math.abs(chunkZ - chunk.z)) === 1) {
+            setNeighbourVersion(version => version + 1);
+          }
+          break;
+        }
+        case 'lightChanged':
+          if (event.chunkX === chunk.x && event.chunkZ === chunk.z) {
+            setNeighbourVersion(version => version + 1);
+          }
+          break;
+        case 'blockChanged':
+          if (event.chunk.x !== chunk.x || event.chunk.z !== chunk.z) {
+            if (touchesBorder(chunk, event.x, event.z)) {
+              setNeighbourVersion(version => version + 1);
+            }
+          }
+          break;
+      }
+    });
+  }, [chunk]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const requestMesh = (): Promise<void> => {
+      const volume = buildChunkVolume(
+        (chunkX, chunkZ) => {
+          if (chunkX === chunk.x && chunkZ === chunk.z) return getChunkData(chunk);
+          const neighbour = world.getChunk(chunkX, chunkZ);
+          return neighbour && getChunkData(neighbour);
+        },
+        chunk.x,
+        chunk.z,
+        (chunkX, chunkZ) => world.getChunkLight(chunkX, chunkZ)
+      );
+
+      return chunkMeshClient.buildMesh(volume, { ambientOcclusion }).then(built => {
+        if (cancelled) return;
+        setSections(built.map(section => ({
+          blockType: section.blockType,
+          geometry: createSectionGeometry(section)
+        })));
+      });
+    };
+
+    requestMesh().catch(error => {
+      // The client drops to main-thread meshing after a worker failure, so one retry suffices
+      console.warn(`⚠️ ChunkMesh: Retrying mesh for chunk (${chunk.x}, ${chunk.z}):`, error);
+      if (!cancelled) requestMesh().catch(retryError => {
+        console.error(`❌ ChunkMesh: Failed to mesh chunk (${chunk.x}, ${chunk.z}):`, retryError);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chunk, neighbourVersion, ambientOcclusion]);
+
+  // Free GPU buffers whenever a new mesh replaces the old one, and on unmount
+  useEffect(() => {
+    return () => {
+      sections.forEach(section => section.geometry.dispose());
+    };
+  }, [sections]);
+
+  return (
+    <group position={[chunk.x * CHUNK_SIZE, 0, chunk.z * CHUNK_SIZE]}>
+      {sections.map(section => (
+        <mesh
+          key={section.blockType}
+          geometry={section.geometry}
+          material={getSectionMaterial(section.blockType)}
+          renderOrder={isSeeThrough(section.blockType) ? 1 : 0}
+        />
+      ))}
+    </group>
+  );
+};
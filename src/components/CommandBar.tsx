@@ -0,0 +1,117 @@
+// Command bar - press T or / to type a command such as "/gamemode creative"
+import React, { useState, useEffect, useRef } from 'react';
+import { commandRegistry } from '../utils/commands';
+import type { CommandContext } from '../utils/commands';
+
+const MESSAGE_LIFETIME = 6000; // ms a reply stays on screen after the bar closes
+const MAX_MESSAGES = 8;
+
+interface CommandMessage {
+  id: number;
+  text: string;
+  error: boolean;
+  time: number;
+}
+
+export const CommandBar: React.FC<{
+  context: CommandContext;
+}> = ({ context }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [messages, setMessages] = useState<CommandMessage[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isOpen || event.target instanceof HTMLInputElement) return;
+      if (event.code !== 'KeyT' && event.key !== '/') return;
+
+      event.preventDefault(); // Keep the key itself out of the input
+      setInput(event.key === '/' ? '/' : '');
+      setIsOpen(true);
+      document.exitPointerLock();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  // Re-render once a second while replies are fading so expired ones disappear
+  useEffect(() => {
+    if (messages.length === 0) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [messages.length]);
+
+  const addMessage = (text: string, error: boolean) => {
+    setMessages(current => [
+      ...current,
+      { id: nextId.current++, text, error, time: Date.now() }
+    ].slice(-MAX_MESSAGES));
+  };
+
+  const submit = () => {
+    const line = input.trim();
+    setIsOpen(false);
+    setInput('');
+    if (!line) return;
+
+    try {
+      addMessage(commandRegistry.execute(line, context), false);
+    } catch (error) {
+      addMessage(error instanceof Error ? error.message : String(error), true);
+    }
+  };
+
+  const visibleMessages = isOpen ? messages : messages.filter(message => now - message.time < MESSAGE_LIFETIME);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      left: '10px',
+      bottom: '110px',
+      width: '420px',
+      fontFamily: 'monospace',
+      fontSize: '14px',
+      zIndex: 1500
+    }}>
+      {visibleMessages.map(message => (
+        <div key={message.id} style={{
+          color: message.error ? '#ff6b6b' : 'white',
+          background: 'rgba(0,0,0,0.5)',
+          padding: '2px 6px',
+          whiteSpace: 'pre-wrap',
+          textShadow: '1px 1px 2px rgba(0,0,0,0.8)'
+        }}>
+          {message.text}
+        </div>
+      ))}
+      {isOpen && (
+        <input
+          autoFocus
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+            else if (e.key === 'Escape') setIsOpen(false);
+          }}
+          onBlur={() => setIsOpen(false)}
+          placeholder="Type a command, e.g. /help"
+          style={{
+            width: '100%',
+            boxSizing: 'border-box',
+            marginTop: '4px',
+            padding: '6px',
+            fontFamily: 'monospace',
+            fontSize: '14px',
+            color: 'white',
+            background: 'rgba(0,0,0,0.7)',
+            border: '1px solid rgba(255,255,255,0.4)',
+            outline: 'none'
+          }}
+        />
+      )}
+    </div>
+  );
+};
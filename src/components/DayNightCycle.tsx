@@ -0,0 +1,113 @@
+// Sky, sun, moon, stars and scene lights driven by the world clock (see utils/dayCycle)
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { simulation } from '../utils/simulation';
+import { createRandom } from '../utils/seed';
+import { getDaylight, getSkyColor, getSkyLightMultiplier, getSunDirection, TICKS_PER_DAY } from '../utils/dayCycle';
+import { skyLightUniform } from '../utils/lighting';
+
+// Celestial bodies sit on a sphere around the camera, inside the camera's far plane
+const CELESTIAL_DISTANCE = 300;
+const SUN_SIZE = 40;
+const MOON_SIZE = 28;
+const STAR_COUNT = 800;
+const STAR_SEED = 7;
+const FOG_NEAR = 30;
+const FOG_FAR = 70; // Just inside the chunk loading radius, so terrain fades out instead of ending
+
+const SUN_INTENSITY = 0.8;
+const MOON_INTENSITY = 0.15;
+const NIGHT_AMBIENT = 0.12;
+const DAY_AMBIENT = 0.4;
+
+// Random points on the upper and lower sky sphere, the same every session
+const createStarGeometry = (): THREE.BufferGeometry => {
+  const random = createRandom(STAR_SEED);
+  const positions = new Float32Array(STAR_COUNT * 3);
+  for (let i = 0; i < STAR_COUNT; i++) {
+    const theta = random() * Math.PI * 2;
+    const z = random() * 2 - 1;
+    const radius = Math.sqrt(1 - z * z);
+    positions.set([radius * Math.cos(theta), radius * Math.sin(theta), z].map(v => v * CELESTIAL_DISTANCE), i * 3);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  return geometry;
+};
+
+// Render once per Canvas; takes over the scene's background, fog and lights
+export const DayNightCycle: React.FC = () => {
+  const { scene, camera } = useThree();
+  const sky = useRef<THREE.Group>(null);
+  const sun = useRef<THREE.Mesh>(null);
+  const moon = useRef<THREE.Mesh>(null);
+  const stars = useRef<THREE.Points>(null);
+  const ambient = useRef<THREE.AmbientLight>(null);
+  const directional = useRef<THREE.DirectionalLight>(null);
+  const starGeometry = useMemo(createStarGeometry, []);
+  const skyColor = useRef(new THREE.Color());
+
+  useEffect(() => {
+    const fog = new THREE.Fog(skyColor.current, FOG_NEAR, FOG_FAR);
+    scene.background = skyColor.current;
+    scene.fog = fog;
+    return () => {
+      scene.background = null;
+      scene.fog = null;
+      starGeometry.dispose();
+    };
+  }, [scene, starGeometry]);
+
+  useFrame(() => {
+    // Interpolate between ticks so the sun glides instead of stepping
+    const time = simulation.tick + simulation.alpha;
+    const daylight = getDaylight(time);
+    const [x, y, z] = getSunDirection(time);
+
+    skyColor.current.setRGB(...getSkyColor(time));
+    (scene.fog as THREE.Fog | null)?.color.copy(skyColor.current);
+    skyLightUniform.value = getSkyLightMultiplier(time);
+
+    // The sky follows the camera so the sun and stars stay infinitely far away
+    sky.current?.position.copy(camera.position);
+    sun.current?.position.set(x * CELESTIAL_DISTANCE, y * CELESTIAL_DISTANCE, z * CELESTIAL_DISTANCE);
+    sun.current?.lookAt(camera.position);
+    moon.current?.position.set(-x * CELESTIAL_DISTANCE, -y * CELESTIAL_DISTANCE, -z * CELESTIAL_DISTANCE);
+    moon.current?.lookAt(camera.position);
+    if (stars.current) {
+      stars.current.rotation.z = (time / TICKS_PER_DAY) * Math.PI * 2;
+      (stars.current.material as THREE.PointsMaterial).opacity = Math.max(0, 1 - daylight * 2);
+    }
+
+    // One directional light plays the sun by day and the dimmer moon by night
+    if (directional.current) {
+      const side = y > 0 ? 100 : -100;
+      directional.current.position.set(x * side, y * side, z * side);
+      directional.current.intensity = Math.max(SUN_INTENSITY * daylight, MOON_INTENSITY * (1 - daylight));
+    }
+    if (ambient.current) {
+      ambient.current.intensity = NIGHT_AMBIENT + (DAY_AMBIENT - NIGHT_AMBIENT) * daylight;
+    }
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambient} intensity={DAY_AMBIENT} />
+      <directionalLight ref={directional} intensity={SUN_INTENSITY} castShadow={false} />
+      <group ref={sky}>
+        <mesh ref={sun} renderOrder={-1}>
+          <planeGeometry args={[SUN_SIZE, SUN_SIZE]} />
+          <meshBasicMaterial color="#FFF4B0" fog={false} depthWrite={false} />
+        </mesh>
+        <mesh ref={moon} renderOrder={-1}>
+          <planeGeometry args={[MOON_SIZE, MOON_SIZE]} />
+          <meshBasicMaterial color="#DDE4F0" fog={false} depthWrite={false} />
+        </mesh>
+        <points ref={stars} geometry={starGeometry} renderOrder={-1}>
+          <pointsMaterial color="white" size={1.5} sizeAttenuation={false} transparent fog={false} depthWrite={false} />
+        </points>
+      </group>
+    </>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Stats } from '@react-three/drei';
 import { useFrame } from '@react-three/fiber';
+import { MAX_AIR } from '../utils/playerVitals';
+import { simulation } from '../utils/simulation';
+import { formatClock, getDay, getDaylight } from '../utils/dayCycle';
 
 // Performance monitor component
 export const PerformanceStats: React.FC = () => {
@@ -21,6 +24,7 @@ export interface HUDData {
   chunksLoaded: number;
   totalChunks: number;
   webglContextStatus: 'stable' | 'warning' | 'lost' | 'restored';
+  biome?: string;
   webglMemoryStatus?: {
     geometries: number;
     textures: number;
@@ -56,12 +60,14 @@ export const HUDUpdater: React.FC<{
   renderDistance: number;
   visibleChunks: number;
   totalChunks: number;
+  biome?: string;
 }> = ({ 
   setHUDData, 
   playerPosition, 
   renderDistance, 
   visibleChunks, 
-  totalChunks 
+  totalChunks,
+  biome
 }) => {
   const frameTime = useRef<number>(0);
   const fpsHistory = useRef<number[]>([]);
@@ -153,7 +159,8 @@ export const HUDUpdater: React.FC<{
       renderDistance,
       chunksLoaded: visibleChunks,
       totalChunks,
-      webglContextStatus: webglStatus.current
+      webglContextStatus: webglStatus.current,
+      biome
     });
   });
   
@@ -165,7 +172,7 @@ export const HUDUpdater: React.FC<{
 export const GameHUD: React.FC<{
   hudData: HUDData;
 }> = ({ hudData }) => {
-  const { fps, playerPosition, renderDistance, chunksLoaded, totalChunks, webglContextStatus } = hudData;
+  const { fps, playerPosition, renderDistance, chunksLoaded, totalChunks, webglContextStatus, biome } = hudData;
   
   // Apply color based on FPS for visual feedback
   const fpsColor = fps > 50 ? 'lime' : fps > 30 ? 'yellow' : 'red';
@@ -223,7 +230,12 @@ export const GameHUD: React.FC<{
       </div>
       <div>
         Chunks: {chunksLoaded} / {totalChunks}
-      </div>      <div style={{ color: statusInfo.color, marginTop: '5px', fontWeight: 'bold' }}>
+      </div>
+      {biome && (
+        <div>
+          Biome: {biome}
+        </div>
+      )}      <div style={{ color: statusInfo.color, marginTop: '5px', fontWeight: 'bold' }}>
         WebGL: {statusInfo.text}
       </div>
       {hudData.webglMemoryStatus && (
@@ -287,8 +299,122 @@ export const ControlsHint: React.FC = () => {
       pointerEvents: 'none'
     }}>
       <h3 style={{ margin: '0 0 10px 0' }}>Controls</h3>
-      <p>WASD - Move | Space - Jump | Shift - Descend</p>
+      <p>WASD - Move | Space - Jump | Shift - Sneak/Descend</p>
       <p>Click to lock mouse and look around</p>
     </div>
   );
 };
+
+// One heart or drumstick: full, half or empty depending on how many halves of it are left
+const StatIcon: React.FC<{ icon: string; halves: number }> = ({ icon, halves }) => (
+  <span style={{ position: 'relative', display: 'inline-block', width: '18px', height: '18px', fontSize: '16px', lineHeight: '18px' }}>
+    <span style={{ position: 'absolute', inset: 0, filter: 'grayscale(1)', opacity: 0.35 }}>{icon}</span>
+    <span style={{ position: 'absolute', inset: 0, width: `${halves * 50}%`, overflow: 'hidden' }}>{icon}</span>
+  </span>
+);
+
+const StatRow: React.FC<{ icon: string; value: number; reverse?: boolean }> = ({ icon, value, reverse }) => (
+  <div style={{ display: 'flex', flexDirection: reverse ? 'row-reverse' : 'row', gap: '1px' }}>
+    {Array.from({ length: 10 }, (_, i) => (
+      <StatIcon key={i} icon={icon} halves={Math.max(0, Math.min(2, value - i * 2))} />
+    ))}
+  </div>
+);
+
+// Survival hearts and hunger, sitting just above the hotbar. Values are in halves (0-20).
+// Bubbles for the remaining breath show above the hunger bar while it is not full.
+export const StatusBars: React.FC<{
+  health: number;
+  hunger: number;
+  air?: number;
+}> = ({ health, hunger, air = MAX_AIR }) => (
+  <div style={{
+    position: 'absolute',
+    bottom: '90px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    width: '440px',
+    display: 'flex',
+    justifyContent: 'space-between',
+    zIndex: 100,
+    userSelect: 'none',
+    pointerEvents: 'none',
+    textShadow: '1px 1px 2px rgba(0,0,0,0.8)'
+  }}>
+    <StatRow icon="❤️" value={health} />
+    <StatRow icon="🍗" value={hunger} reverse />
+    {air < MAX_AIR && (
+      <div style={{ position: 'absolute', right: 0, bottom: '22px' }}>
+        <StatRow icon="🫧" value={Math.ceil(air / MAX_AIR * 20)} reverse />
+      </div>
+    )}
+  </div>
+);
+
+// Day count and time of day at the top of the screen. The label only changes once per in-game
+// minute, and setting an unchanged string does not re-render.
+const getClockLabel = (time: number): string =>
+  `${getDaylight(time) > 0.5 ? '☀️' : '🌙'} Day ${getDay(time)} · ${formatClock(time)}`;
+
+export const WorldClock: React.FC = () => {
+  const [label, setLabel] = useState(() => getClockLabel(simulation.tick));
+
+  useEffect(() => simulation.subscribe(tick => setLabel(getClockLabel(tick))), []);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '10px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      color: 'white',
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      background: 'rgba(0,0,0,0.4)',
+      padding: '4px 12px',
+      borderRadius: '5px',
+      zIndex: 100,
+      userSelect: 'none',
+      pointerEvents: 'none',
+      textShadow: '1px 1px 2px rgba(0,0,0,0.8)'
+    }}>
+      {label}
+    </div>
+  );
+};
+
+// Full-screen overlay shown while the player is dead
+export const DeathScreen: React.FC<{
+  onRespawn: () => void;
+}> = ({ onRespawn }) => (
+  <div style={{
+    position: 'absolute',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: '30px',
+    background: 'rgba(120,0,0,0.5)',
+    color: 'white',
+    fontFamily: 'monospace',
+    zIndex: 2000
+  }}>
+    <h1 style={{ margin: 0, fontSize: '48px', textShadow: '3px 3px 0 rgba(0,0,0,0.6)' }}>💀 You died!</h1>
+    <button
+      onClick={onRespawn}
+      style={{
+        padding: '12px 40px',
+        fontSize: '18px',
+        fontFamily: 'monospace',
+        color: 'white',
+        background: 'rgba(0,0,0,0.6)',
+        border: '2px solid rgba(255,255,255,0.6)',
+        borderRadius: '5px',
+        cursor: 'pointer'
+      }}
+    >
+      Respawn
+    </button>
+  </div>
+);
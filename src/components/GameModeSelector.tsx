@@ -1,20 +1,41 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { GameErrorBoundary } from './GameHelpers';
 import { HighPerformanceWorld } from './HighPerformanceWorld';
 import { SimpleTestWorld } from './SimpleTestWorld';
 import StableMinecraftWorld from './StableMinecraftWorld';
+import { WorldBrowser } from './WorldBrowser';
+import { worldStore } from '../utils/worldStore';
+import type { SaveSlot } from '../utils/worldStore';
 
-type GameMode = 'menu' | 'stable' | 'highPerformance' | 'enhanced' | 'basic';
+type GameMode = 'menu' | 'worlds' | 'stable' | 'highPerformance' | 'enhanced' | 'basic';
 
 const GameModeSelector: React.FC = () => {
   const [currentMode, setCurrentMode] = useState<GameMode>('menu');
+  const [saveSlots, setSaveSlots] = useState<SaveSlot[]>([]);
+  const [activeSlot, setActiveSlot] = useState<SaveSlot | undefined>(undefined);
+
+  // Refresh the save list whenever we are back in the menu
+  useEffect(() => {
+    if (currentMode !== 'menu') return;
+
+    worldStore.listSlots()
+      .then(setSaveSlots)
+      .catch(error => console.error('❌ GameModeSelector: Failed to list saved worlds:', error));
+  }, [currentMode]);
+
+  const playSlot = useCallback((slot: SaveSlot | undefined) => {
+    setActiveSlot(slot);
+    setCurrentMode('stable');
+  }, []);
 
   const renderGameMode = () => {
     switch (currentMode) {
+      case 'worlds':
+        return <WorldBrowser onPlay={playSlot} onBack={() => setCurrentMode('menu')} />;
       case 'stable':
         return (
           <GameErrorBoundary>
-            <StableMinecraftWorld />
+            <StableMinecraftWorld key={activeSlot?.id ?? 'unsaved'} slot={activeSlot} />
           </GameErrorBoundary>
         );
       case 'highPerformance':
@@ -75,7 +96,7 @@ const GameModeSelector: React.FC = () => {
         }}>
           {/* Stable World - NEW RECOMMENDED */}
           <button
-            onClick={() => setCurrentMode('stable')}
+            onClick={() => playSlot(undefined)}
             style={{
               padding: '20px',
               background: 'linear-gradient(145deg, #00C853, #00A843)',
@@ -210,6 +231,67 @@ const GameModeSelector: React.FC = () => {
           </button>
         </div>
 
+        {/* Saved Worlds */}
+        <div style={{
+          padding: '20px',
+          background: 'rgba(0,0,0,0.2)',
+          borderRadius: '10px',
+          textAlign: 'left'
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '10px' }}>💾 Saved Worlds</div>
+          {saveSlots.length === 0 && (
+            <div style={{ opacity: 0.8, marginBottom: '10px' }}>No saved worlds yet</div>
+          )}
+          {saveSlots.slice(0, 3).map(slot => (
+            <div
+              key={slot.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '8px 0',
+                borderBottom: '1px solid rgba(255,255,255,0.15)'
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 'bold' }}>{slot.name}</div>
+                <div style={{ fontSize: '0.8em', opacity: 0.8 }}>
+                  Seed {slot.seed} · Last played {new Date(slot.lastPlayed).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => playSlot(slot)}
+                style={{
+                  padding: '8px 16px',
+                  background: '#00C853',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontSize: '14px'
+                }}
+              >
+                ▶ Play
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setCurrentMode('worlds')}
+            style={{
+              marginTop: '15px',
+              padding: '8px 16px',
+              background: 'rgba(255,255,255,0.2)',
+              border: '1px solid rgba(255,255,255,0.3)',
+              borderRadius: '8px',
+              color: 'white',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            📂 Manage Worlds{saveSlots.length > 3 ? ` (${saveSlots.length})` : ''}
+          </button>
+        </div>
+
         <div style={{
           marginTop: '30px',
           padding: '20px',
@@ -2,24 +2,26 @@ import React, { useState, useCallback, useMemo, useEffect, useRef, Suspense } fr
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 // import { PointerLockControls } from '@react-three/drei'; // DISABLED: Might create geometry
 import { ImprovedWorldGenerator } from '../utils/cleanGenerator';
+import { ChunkGenerator } from '../utils/chunkGenerator';
+import { getUrlWorldSeed } from '../utils/seed';
 import { PlayerController } from './PlayerController';
 import { useHUDState, GameHUD, Crosshair, ControlsHint, HUDUpdater } from './GameHUD';
 import { WebGLContextManager, MemoryManager } from './WebGLContextManager';
 import { EnhancedWebGLMonitor } from './EnhancedWebGLMonitor';
 import { SimpleChunkComponent } from './SimpleBlock';
 import { MinimalGeometryCleanup, ContextResetUtility } from './GeometryCleanupSystem';
-import type { Chunk } from '../types/game';
-import { MAX_RENDER_DISTANCE, CHUNK_SIZE } from '../types/game';
+import type { Chunk, WorldSeed } from '../types/game';
+import { MAX_RENDER_DISTANCE, CHUNK_SIZE, ChunkData } from '../types/game';
 import * as THREE from 'three';
 
-// Worker for efficient chunk generation
-const useChunkWorker = () => {
+// Worker for efficient chunk generation; the fallback runs the same seeded generator
+const useChunkWorker = (seed: WorldSeed) => {
   const [chunks, setChunks] = useState<Map<string, Chunk>>(new Map());
   const [isWorkerReady, setWorkerReady] = useState(false);
   const workerRef = useRef<Worker | null>(null);
   const pendingChunks = useRef<Set<string>>(new Set());
   const chunkRequestQueue = useRef<Array<{chunkX: number, chunkZ: number}>>([]);
-  const fallbackGenerator = useRef<ImprovedWorldGenerator | null>(null);
+  const fallbackGenerator = useRef<ChunkGenerator | null>(null);
   
   // Initialize worker
   useEffect(() => {
@@ -101,9 +103,10 @@ const useChunkWorker = () => {
     // Send to worker
     worker.postMessage({
       type: 'GENERATE_CHUNKS_BATCH',
-      chunks
+      chunks,
+      seed
     });
-  }, [isWorkerReady]);
+  }, [isWorkerReady, seed]);
   
   // Add generated chunk to state
   const addChunk = useCallback((chunk: Chunk, id: string) => {
@@ -113,6 +116,8 @@ const useChunkWorker = () => {
       const newChunks = new Map(prev);
       newChunks.set(id, {
         ...chunk,
+        // Structured clone drops the class prototype, so rebuild storage from its buffers
+        data: chunk.data && new ChunkData(chunk.data.cells, chunk.data.palette),
         isReady: true
       });
       return newChunks;
@@ -127,7 +132,7 @@ const useChunkWorker = () => {
   // Initialize and use fallback generator
   const useFallbackGenerator = useCallback(() => {
     if (!fallbackGenerator.current) {
-      fallbackGenerator.current = new ImprovedWorldGenerator();
+      fallbackGenerator.current = new ChunkGenerator(seed);
     }
     
     // Process chunks in main thread
@@ -154,7 +159,7 @@ const useChunkWorker = () => {
     };
     
     requestAnimationFrame(processChunksInMainThread);
-  }, [chunks, addChunk]);
+  }, [chunks, addChunk, seed]);
   
   // Queue chunk for generation
   const queueChunk = useCallback((chunkX: number, chunkZ: number) => {
@@ -503,7 +508,7 @@ const LimitedChunkRenderer: React.FC<{ playerPosition: [number, number, number]
 const WorldRenderer: React.FC = () => {
   // State for player position and chunks
   const [playerPosition, setPlayerPosition] = useState<[number, number, number]>([0, 5, 0]);
-  const { chunks, queueChunk } = useChunkWorker();
+  const { chunks, queueChunk } = useChunkWorker(getUrlWorldSeed());
   const { renderDistance } = useAdaptivePerformance();
   
   // Update HUD data
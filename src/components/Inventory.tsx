@@ -1,5 +1,22 @@
-import React, { useState } from 'react';
-import { BLOCK_TYPES } from '../types/game';
+import React, { useRef, useState } from 'react';
+import { BLOCK_TYPES, ITEM_TYPES, getItemType } from '../types/game';
+import type { GameState, InventorySlot, ItemStack } from '../types/game';
+import {
+  HOTBAR_SIZE,
+  INVENTORY_SIZE,
+  addItem,
+  craftAllToInventory,
+  craftToCursor,
+  getCraftingSize,
+  getMaxStackSize,
+  leftClickSlot,
+  moveSlot,
+  quickMoveSlot,
+  rightClickSlot
+} from '../utils/inventory';
+import type { CursorState, InventoryState } from '../utils/inventory';
+import { getRecipeSize, recipeRegistry } from '../utils/recipes';
+import type { Recipe } from '../utils/recipes';
 
 interface InventoryProps {
   selectedBlock: number;
@@ -116,3 +133,366 @@ export const Inventory: React.FC<InventoryProps> = ({ selectedBlock, onBlockSele
     </>
   );
 };
+
+const SLOT_SIZE = 44;
+
+// Item picture with its count in the corner and a durability bar for worn tools
+const StackIcon: React.FC<{ stack: ItemStack; showCount?: boolean; size?: number }> = ({
+  stack,
+  showCount = true,
+  size = 32
+}) => {
+  const item = getItemType(stack.itemId);
+  const wear = item?.tool ? (stack.metadata?.damage ?? 0) / item.tool.durability : 0;
+  return (
+    <div style={{ position: 'relative', width: `${size}px`, height: `${size}px` }} title={item?.name}>
+      {item && (
+        <img
+          src={item.icon}
+          alt={item.name}
+          draggable={false}
+          style={{ width: `${size}px`, height: `${size}px`, imageRendering: 'pixelated' }}
+        />
+      )}
+      {wear > 0 && (
+        <div style={{ position: 'absolute', left: '2px', right: '2px', bottom: '0', height: '3px', background: 'black' }}>
+          <div style={{
+            width: `${(1 - wear) * 100}%`,
+            height: '100%',
+            background: `hsl(${Math.round((1 - wear) * 120)}, 90%, 45%)`
+          }} />
+        </div>
+      )}
+      {showCount && stack.count > 1 && (
+        <span style={{
+          position: 'absolute',
+          right: '-4px',
+          bottom: '-4px',
+          color: 'white',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          textShadow: '1px 1px 0 black'
+        }}>
+          {stack.count}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const slotStyle = (highlighted: boolean): React.CSSProperties => ({
+  width: `${SLOT_SIZE}px`,
+  height: `${SLOT_SIZE}px`,
+  background: highlighted ? 'rgba(255,255,255,0.3)' : 'rgba(255,255,255,0.1)',
+  border: highlighted ? '2px solid white' : '2px solid rgba(255,255,255,0.2)',
+  borderRadius: '5px',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  boxSizing: 'border-box',
+  userSelect: 'none'
+});
+
+const gridStyle = (columns: number): React.CSSProperties => ({
+  display: 'grid',
+  gridTemplateColumns: `repeat(${columns}, ${SLOT_SIZE}px)`,
+  gap: '4px'
+});
+
+interface HotbarProps {
+  slots: InventorySlot[];
+  selectedSlot: number;
+  showCounts: boolean;
+  onSelect: (index: number) => void;
+}
+
+// Always-visible row of the first HOTBAR_SIZE inventory slots
+export const Hotbar: React.FC<HotbarProps> = ({ slots, selectedSlot, showCounts, onSelect }) => (
+  <div style={{
+    position: 'absolute',
+    bottom: '20px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    display: 'flex',
+    gap: '5px',
+    background: 'rgba(0,0,0,0.7)',
+    padding: '8px',
+    borderRadius: '10px',
+    zIndex: 100
+  }}>
+    {slots.slice(0, HOTBAR_SIZE).map((stack, index) => (
+      <div key={index} onClick={() => onSelect(index)} style={{ ...slotStyle(index === selectedSlot), cursor: 'pointer' }}>
+        {stack && <StackIcon stack={stack} showCount={showCounts} />}
+      </div>
+    ))}
+  </div>
+);
+
+// One recipe book entry: the result next to a picture of the grid that makes it
+const RecipeEntry: React.FC<{ recipe: Recipe }> = ({ recipe }) => {
+  const size = getRecipeSize(recipe);
+  const cells: number[] = recipe.type === 'shapeless'
+    ? recipe.ingredients
+    : recipe.pattern.flatMap(row =>
+      Array.from({ length: size }, (_, x) => (row[x] && row[x] !== ' ' ? recipe.key[row[x]] : 0))
+    );
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '6px',
+      borderBottom: '1px solid rgba(255,255,255,0.1)'
+    }}>
+      <div style={{ display: 'grid', gridTemplateColumns: `repeat(${size}, 18px)`, gap: '2px' }}>
+        {Array.from({ length: size * size }, (_, i) => (
+          <div key={i} style={{ width: '18px', height: '18px', background: 'rgba(255,255,255,0.1)' }}>
+            {cells[i] > 0 && <StackIcon stack={{ itemId: cells[i], count: 1 }} size={18} />}
+          </div>
+        ))}
+      </div>
+      <span>➜</span>
+      <StackIcon stack={recipe.result} />
+      <div style={{ flex: 1 }}>
+        <div>{getItemType(recipe.result.itemId)?.name}</div>
+        <div style={{ fontSize: '10px', opacity: 0.7 }}>
+          {recipe.type === 'shapeless' ? 'Shapeless' : 'Shaped'}{size === 3 ? ' · Crafting Table' : ''}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+type InventoryTab = 'inventory' | 'recipes' | 'creative';
+
+interface InventoryScreenProps {
+  gameMode: GameState['gameMode'];
+  state: InventoryState;
+  onChange: (state: InventoryState) => void;
+  onClose: () => void;
+}
+
+// Full inventory with a crafting grid (2×2, or 3×3 when opened from a crafting table).
+// Left click picks up, drops, merges or swaps; right click splits a stack or drops one item;
+// shift-click moves between hotbar and main inventory; stacks can also be dragged.
+// Creative mode adds an infinite palette tab.
+export const InventoryScreen: React.FC<InventoryScreenProps> = ({ gameMode, state, onChange, onClose }) => {
+  const [tab, setTab] = useState<InventoryTab>('inventory');
+  const [search, setSearch] = useState('');
+  const [mouse, setMouse] = useState({ x: 0, y: 0 });
+  const dragFrom = useRef<number | null>(null);
+
+  const craftingSize = getCraftingSize(state);
+  const recipe = recipeRegistry.findMatch(state.crafting, craftingSize);
+
+  const handleSlotClick = (event: React.MouseEvent, index: number) => {
+    if (event.shiftKey && !state.cursor) {
+      onChange({ ...state, slots: quickMoveSlot(state.slots, index) });
+    } else {
+      onChange({ ...state, ...leftClickSlot(state, index) });
+    }
+  };
+
+  const handleSlotRightClick = (event: React.MouseEvent, index: number) => {
+    event.preventDefault();
+    onChange({ ...state, ...rightClickSlot(state, index) });
+  };
+
+  // The crafting grid uses the same click rules as the inventory
+  const clickCraftingCell = (index: number, click: (cursorState: CursorState, index: number) => CursorState) => {
+    const result = click({ slots: state.crafting, cursor: state.cursor }, index);
+    onChange({ ...state, crafting: result.slots, cursor: result.cursor });
+  };
+
+  // Palette items are endless: clicking takes a full stack, clicking while holding something discards it
+  const handlePaletteClick = (event: React.MouseEvent, itemId: number) => {
+    const stack: ItemStack = { itemId, count: getMaxStackSize(itemId) };
+    if (event.shiftKey) {
+      onChange({ ...state, slots: addItem(state.slots, stack).slots });
+    } else {
+      onChange({ ...state, cursor: state.cursor ? null : stack });
+    }
+  };
+
+  const renderSlot = (index: number) => {
+    const stack = state.slots[index];
+    return (
+      <div
+        key={index}
+        draggable={!!stack && !state.cursor}
+        onDragStart={() => {
+          dragFrom.current = index;
+        }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault();
+          if (dragFrom.current !== null) onChange({ ...state, slots: moveSlot(state.slots, dragFrom.current, index) });
+          dragFrom.current = null;
+        }}
+        onClick={(event) => handleSlotClick(event, index)}
+        onContextMenu={(event) => handleSlotRightClick(event, index)}
+        style={{ ...slotStyle(false), cursor: 'pointer' }}
+      >
+        {stack && <StackIcon stack={stack} showCount={gameMode === 'survival' || stack.count > 1} />}
+      </div>
+    );
+  };
+
+  const tabButton = (id: InventoryTab, label: string) => (
+    <button
+      onClick={() => setTab(id)}
+      style={{
+        padding: '6px 14px',
+        background: tab === id ? 'rgba(255,255,255,0.3)' : 'rgba(255,255,255,0.1)',
+        border: '1px solid rgba(255,255,255,0.3)',
+        borderRadius: '5px',
+        color: 'white',
+        cursor: 'pointer'
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  const renderCrafting = () => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '15px', marginBottom: '15px' }}>
+      <div style={gridStyle(craftingSize)}>
+        {state.crafting.map((stack, index) => (
+          <div
+            key={index}
+            onClick={() => clickCraftingCell(index, leftClickSlot)}
+            onContextMenu={(event) => {
+              event.preventDefault();
+              clickCraftingCell(index, rightClickSlot);
+            }}
+            style={{ ...slotStyle(false), cursor: 'pointer' }}
+          >
+            {stack && <StackIcon stack={stack} />}
+          </div>
+        ))}
+      </div>
+      <span style={{ fontSize: '24px' }}>➜</span>
+      <div
+        onClick={(event) => onChange(event.shiftKey ? craftAllToInventory(state) : craftToCursor(state))}
+        style={{ ...slotStyle(recipe !== null), cursor: recipe ? 'pointer' : 'default' }}
+        title={recipe ? getItemType(recipe.result.itemId)?.name : undefined}
+      >
+        {recipe && <StackIcon stack={recipe.result} />}
+      </div>
+    </div>
+  );
+
+  const renderRecipeBook = () => (
+    <div style={{ width: `${HOTBAR_SIZE * (SLOT_SIZE + 4)}px`, marginBottom: '15px' }}>
+      <input
+        autoFocus
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Search recipes"
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          padding: '6px 10px',
+          marginBottom: '8px',
+          borderRadius: '5px',
+          border: '1px solid rgba(255,255,255,0.3)',
+          background: 'rgba(255,255,255,0.1)',
+          color: 'white'
+        }}
+      />
+      <div style={{ maxHeight: '260px', overflowY: 'auto' }}>
+        {recipeRegistry.search(search).map(entry => <RecipeEntry key={entry.id} recipe={entry} />)}
+      </div>
+    </div>
+  );
+
+  const renderMainContent = () => {
+    switch (tab) {
+      case 'recipes':
+        return renderRecipeBook();
+      case 'creative':
+        return (
+          <div style={{ ...gridStyle(HOTBAR_SIZE), marginBottom: '15px' }}>
+            {ITEM_TYPES.map(item => (
+              <div
+                key={item.id}
+                onClick={(event) => handlePaletteClick(event, item.id)}
+                style={{ ...slotStyle(false), cursor: 'pointer' }}
+              >
+                <StackIcon stack={{ itemId: item.id, count: 1 }} />
+              </div>
+            ))}
+          </div>
+        );
+      case 'inventory':
+      default:
+        return (
+          <>
+            {renderCrafting()}
+            <div style={{ ...gridStyle(HOTBAR_SIZE), marginBottom: '15px' }}>
+              {Array.from({ length: INVENTORY_SIZE - HOTBAR_SIZE }, (_, i) => renderSlot(HOTBAR_SIZE + i))}
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div
+      // Keep clicks away from the pointer lock handler on the document
+      onClick={(event) => event.stopPropagation()}
+      onMouseMove={(event) => setMouse({ x: event.clientX, y: event.clientY })}
+      onContextMenu={(event) => event.preventDefault()}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        background: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1100,
+        fontFamily: 'monospace',
+        color: 'white'
+      }}
+    >
+      <div style={{ background: 'rgba(0,0,0,0.9)', padding: '20px', borderRadius: '10px' }}>
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '15px', alignItems: 'center' }}>
+          {tabButton('inventory', craftingSize === 3 ? '🛠️ Crafting Table' : '🎒 Inventory')}
+          {tabButton('recipes', '📖 Recipes')}
+          {gameMode === 'creative' && tabButton('creative', '✨ Creative')}
+          <div style={{ flex: 1 }} />
+          <button
+            onClick={onClose}
+            style={{ background: 'none', border: 'none', color: 'white', cursor: 'pointer', fontSize: '16px' }}
+          >
+            ✖
+          </button>
+        </div>
+
+        {renderMainContent()}
+
+        {/* Hotbar row */}
+        <div style={gridStyle(HOTBAR_SIZE)}>
+          {Array.from({ length: HOTBAR_SIZE }, (_, i) => renderSlot(i))}
+        </div>
+
+        <div style={{ fontSize: '11px', opacity: 0.7, marginTop: '12px' }}>
+          Click to pick up · Right click to split · Shift-click to move · E to close
+        </div>
+      </div>
+
+      {/* Stack held on the cursor */}
+      {state.cursor && (
+        <div style={{
+          position: 'fixed',
+          left: mouse.x - 16,
+          top: mouse.y - 16,
+          pointerEvents: 'none'
+        }}>
+          <StackIcon stack={state.cursor} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,32 +1,10 @@
 import React, { useMemo, useRef, useEffect } from 'react';
 import * as THREE from 'three';
-import { useLoader, useFrame } from '@react-three/fiber';
-import { TextureLoader, NearestFilter, RepeatWrapping, InstancedMesh, Object3D } from 'three';
+import { useFrame } from '@react-three/fiber';
+import { InstancedMesh, Object3D } from 'three';
 import type { Block as BlockType, Chunk } from '../types/game';
 import { BLOCK_TYPES } from '../types/game';
-
-// Texture atlas approach for better performance
-export const useBlockTextures = () => {
-  const textures = useLoader(TextureLoader, [
-    '/textures/grass_top.svg',
-    '/textures/grass_side.svg',
-    '/textures/dirt.svg',
-    '/textures/stone.svg',
-    '/textures/log_top.svg',
-    '/textures/log_side.svg',
-    '/textures/leaves.svg',
-  ]);
-
-  // Configure textures for pixel art look
-  textures.forEach(texture => {
-    texture.magFilter = NearestFilter;
-    texture.minFilter = NearestFilter;
-    texture.wrapS = RepeatWrapping;
-    texture.wrapT = RepeatWrapping;
-  });
-
-  return textures;
-};
+import { getBlockAtlasMaterial, getBlockBoxGeometry } from '../utils/blockAtlasTexture';
 
 // Determine if a block face should be rendered
 // This is a crucial optimization - don't render faces that are covered by other blocks
@@ -69,36 +47,6 @@ export const OptimizedChunk: React.FC<{ chunk: Chunk, chunkX: number, chunkZ: nu
   // Object used for setting instance positions
   const tempObject = useMemo(() => new Object3D(), []);
   
-  // Load all textures
-  const textures = useBlockTextures();
-
-  // Create materials for each block type
-  const blockMaterials = useMemo(() => {
-    return BLOCK_TYPES.map((blockType, index) => {
-      if (index === 0) return null; // Air has no material
-      
-      // Determine which textures to use
-      const topTexture = textures[blockType.textureTop ? 
-        textures.findIndex((_, i) => blockType.textureTop.includes(textures[i].image?.src?.split('/').pop() || '')) : 0];
-      
-      const sideTexture = textures[blockType.textureSide ? 
-        textures.findIndex((_, i) => blockType.textureSide.includes(textures[i].image?.src?.split('/').pop() || '')) : 0];
-      
-      const bottomTexture = textures[blockType.textureBottom ? 
-        textures.findIndex((_, i) => blockType.textureBottom.includes(textures[i].image?.src?.split('/').pop() || '')) : 0];
-      
-      // Create six materials for each face of the cube
-      return [
-        new THREE.MeshLambertMaterial({ map: sideTexture }), // Right
-        new THREE.MeshLambertMaterial({ map: sideTexture }), // Left
-        new THREE.MeshLambertMaterial({ map: topTexture }),  // Top
-        new THREE.MeshLambertMaterial({ map: bottomTexture }), // Bottom
-        new THREE.MeshLambertMaterial({ map: sideTexture }), // Front
-        new THREE.MeshLambertMaterial({ map: sideTexture }), // Back
-      ];
-    });
-  }, [textures]);
-
   // Calculate max instances for each block type
   const countByType = useMemo(() => {
     const counts: { [key: number]: number } = {};
@@ -171,15 +119,12 @@ export const OptimizedChunk: React.FC<{ chunk: Chunk, chunkX: number, chunkZ: nu
             key={typeId}
             ref={(mesh) => { meshRefs.current[typeId] = mesh; }}
             args={[
-              undefined, 
-              undefined, 
+              getBlockBoxGeometry(typeId),
+              getBlockAtlasMaterial(), // One atlas material shared by every block type
               countByType[typeId] // Max number of instances
             ]}
             frustumCulled={true} // Enable frustum culling for better performance
-            material={blockMaterials[typeId]}
-          >
-            <boxGeometry args={[1, 1, 1]} />
-          </instancedMesh>
+          />
         );
       })}
     </group>
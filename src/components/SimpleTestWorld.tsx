@@ -3,27 +3,20 @@ import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { PointerLockControls, Sky } from '@react-three/drei';
 import { useHUDState, GameHUD, Crosshair, ControlsHint } from './GameHUD';
 import type { Block } from '../types/game';
+import { BLOCKS } from '../types/game';
 import * as THREE from 'three';
+import { getBlockAtlasMaterial, getBlockBoxGeometry } from '../utils/blockAtlasTexture';
 
-// Simple colored block without textures
+// Simple block textured from the shared atlas
 const SimpleBlock: React.FC<{ block: Block }> = ({ block }) => {
   if (block.type === 0) return null; // Don't render air
   
-  const getBlockColor = (type: number) => {
-    switch (type) {
-      case 1: return '#90EE90'; // Grass - Light green
-      case 2: return '#8B4513'; // Dirt - Brown  
-      case 3: return '#808080'; // Stone - Gray
-      case 4: return '#654321'; // Wood - Dark brown
-      case 5: return '#228B22'; // Leaves - Dark green
-      default: return '#FFFFFF';
-    }
-  };
   return (
-    <mesh position={[block.x, block.y, block.z]}>
-      <boxGeometry args={[1, 1, 1]} />
-      <meshLambertMaterial color={getBlockColor(block.type)} />
-    </mesh>
+    <mesh
+      position={[block.x, block.y, block.z]}
+      geometry={getBlockBoxGeometry(block.type)}
+      material={getBlockAtlasMaterial()}
+    />
   );
 };
 
@@ -133,12 +126,12 @@ class SmoothTerrainGenerator {
         
         // Generate solid terrain (no gaps)
         for (let y = -5; y <= height; y++) {
-          let blockType = 3; // Stone by default
+          let blockType: number = BLOCKS.STONE; // Stone by default
           
           if (y === height) {
-            blockType = 1; // Grass top
+            blockType = BLOCKS.GRASS; // Grass top
           } else if (y >= height - 3) {
-            blockType = 2; // Dirt
+            blockType = BLOCKS.DIRT; // Dirt
           }
           
           blocks.push({ type: blockType, x, y, z });
@@ -0,0 +1,14 @@
+// Drives the shared fixed-timestep simulation from the render loop
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { simulation } from '../utils/simulation';
+
+// Runs before every other frame callback so renderers interpolate against this frame's ticks.
+// Render exactly one of these per Canvas.
+export const SimulationLoop: React.FC = () => {
+  useFrame((_, delta) => {
+    simulation.advance(delta);
+  }, -1);
+
+  return null;
+};
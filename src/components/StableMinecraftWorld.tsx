@@ -1,22 +1,370 @@
 // Stable Minecraft World with Realistic Terrain and Collision
 import React, { useState, useCallback, useMemo, useEffect, useRef, Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { PointerLockControls, Sky } from '@react-three/drei';
-import { optimizedStableWorldGenerator } from '../utils/optimizedStableWorldGenerator';
-import { SimpleChunkComponent } from './SimpleBlock';
-import { StablePlayerController } from './StablePlayerController';
-import { useHUDState, GameHUD, Crosshair, ControlsHint, HUDUpdater } from './GameHUD';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { PointerLockControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { stableWorldGenerator } from '../utils/stableWorldGenerator';
+import { world } from '../utils/world';
+import { isFluid } from '../utils/fluids';
+import { graphicsSettings } from '../utils/graphicsSettings';
+import { worldStore } from '../utils/worldStore';
+import type { SaveSlot, SavedPlayer } from '../utils/worldStore';
+import { createWorldGenerator } from '../utils/worldTypes';
+import { getDrops, wearTool } from '../utils/blockBreaking';
+import { HOTBAR_SIZE, addItem, createInventory, removeFromSlot, resizeCraftingGrid, returnLooseItems } from '../utils/inventory';
+import type { InventoryState } from '../utils/inventory';
+import {
+  JUMP_EXHAUSTION,
+  SPRINT_EXHAUSTION,
+  SPRINT_JUMP_EXHAUSTION,
+  MAX_HEALTH,
+  MAX_HUNGER,
+  VITALS_TICK_SECONDS,
+  addExhaustion,
+  canEat,
+  canSprint,
+  createVitals,
+  damage,
+  eat,
+  getFallDamage,
+  isDead,
+  tickVitals
+} from '../utils/playerVitals';
+import type { Vitals } from '../utils/playerVitals';
+import { TICK_PHASE, simulation } from '../utils/simulation';
+import { ChunkMesh } from './ChunkMesh';
+import { EYE_HEIGHT, GRAVITY, StablePlayerController } from './StablePlayerController';
+import { BlockInteraction } from './BlockInteraction';
+import { Hotbar, InventoryScreen } from './Inventory';
+import { CommandBar } from './CommandBar';
+import { SimulationLoop } from './SimulationLoop';
+import { useHUDState, GameHUD, Crosshair, ControlsHint, HUDUpdater, StatusBars, DeathScreen, WorldClock } from './GameHUD';
+import { DayNightCycle } from './DayNightCycle';
 import { MemoryManager } from './WebGLContextManager';
 import { EnhancedWebGLMonitor } from './EnhancedWebGLMonitor';
-import type { Chunk } from '../types/game';
-import { CHUNK_SIZE } from '../types/game';
+import type { Chunk, GameState, InventorySlot } from '../types/game';
+import { BLOCKS, BLOCK_TYPES, CHUNK_SIZE, GAME_MODE_NAMES, getChunkData, getItemType } from '../types/game';
+
+const SPAWN_POSITION: [number, number, number] = [8, 50, 8];
+const AUTOSAVE_INTERVAL = 30000; // ms
+// Physics moves the player every tick; the session re-renders with the new position at most
+// this often (ms), or straight away when the player enters another chunk
+const POSITION_RENDER_INTERVAL = 250;
+const GAME_MODE_ORDER: GameState['gameMode'][] = ['survival', 'creative', 'spectator'];
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+
+// Stand on top of the spawn column, or on the surface of any water covering it, generating
+// its chunk if it is not loaded yet. Falls back to SPAWN_POSITION when the column has no blocks at all.
+const findSpawnPoint = (): [number, number, number] => {
+  const [x, , z] = SPAWN_POSITION;
+  world.loadChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+  const ground = world.getHighestSolidY(x, z);
+  if (ground === null) return SPAWN_POSITION;
+
+  let surface = ground + 1;
+  while (isFluid(world.getBlock(x, surface, z))) surface++;
+  return [x + 0.5, surface, z + 0.5];
+};
+
+// Creative players start with a hotbar of building blocks, survival players with nothing.
+// Call after the world is open so the spawn point can be found.
+const createDefaultPlayer = (gameMode: GameState['gameMode']): SavedPlayer => {
+  const inventory = createInventory();
+  if (gameMode === 'creative') {
+    BLOCK_TYPES.filter(block => block.id > 0).slice(0, HOTBAR_SIZE).forEach((block, index) => {
+      inventory[index] = { itemId: block.id, count: 1 };
+    });
+  }
+  return {
+    position: findSpawnPoint(),
+    rotation: [0, 0],
+    inventory,
+    selectedSlot: 0,
+    health: MAX_HEALTH,
+    hunger: MAX_HUNGER
+  };
+};
+
+type SlotChanges = Partial<Pick<SaveSlot, 'gameMode' | 'thumbnail' | 'time'>>;
+
+// Open a save slot in the shared world; without a slot the world is generated fresh and never saved
+const useWorldSession = (slot?: SaveSlot) => {
+  const [player, setPlayer] = useState<SavedPlayer | null>(null);
+  const thumbnailRef = useRef(slot?.thumbnail);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!slot) {
+      world.open(stableWorldGenerator);
+      setPlayer(createDefaultPlayer('creative'));
+      return;
+    }
+
+    Promise.all([worldStore.loadChunks(slot.id), worldStore.loadPlayer(slot.id)])
+      .then(([savedChunks, savedPlayer]) => {
+        if (cancelled) return;
+        world.open(createWorldGenerator(slot.worldType, slot.seed), savedChunks, worldStore.getChunkStore(slot.id));
+        setPlayer(savedPlayer ?? createDefaultPlayer(slot.gameMode));
+        console.log(`📂 StableMinecraftWorld: Opened world "${slot.name}"`);
+      })
+      .catch(error => {
+        console.error(`❌ StableMinecraftWorld: Failed to open world "${slot.name}":`, error);
+        if (cancelled) return;
+        world.open(createWorldGenerator(slot.worldType, slot.seed));
+        setPlayer(createDefaultPlayer(slot.gameMode));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slot]);
+
+  // Write edited chunks, the player and the slot's metadata, including settings changed in game
+  const save = useCallback((state: SavedPlayer, changes: SlotChanges): Promise<void> => {
+    if (!slot) return Promise.resolve();
+
+    // A failed capture keeps the previous thumbnail
+    if (changes.thumbnail) thumbnailRef.current = changes.thumbnail;
+
+    return Promise.all([
+      world.saveDirtyChunks(),
+      worldStore.savePlayer(slot.id, state),
+      worldStore.saveSlot({ ...slot, ...changes, lastPlayed: Date.now(), thumbnail: thumbnailRef.current })
+    ]).then(() => {
+      console.log(`💾 StableMinecraftWorld: Saved world "${slot.name}"`);
+    }).catch(error => {
+      console.error(`❌ StableMinecraftWorld: Failed to save world "${slot.name}":`, error);
+    });
+  }, [slot]);
+
+  return { player, save };
+};
+
+const createCraftingGrid = (size: number) => new Array<InventorySlot>(size * size).fill(null);
+
+// Hotbar selection, the inventory screen and survival pick-up/consumption.
+// `stateRef` always holds the latest slots for saving.
+const usePlayerInventory = (player: SavedPlayer, gameMode: GameState['gameMode']) => {
+  const [inventory, setInventory] = useState<InventoryState>({
+    slots: player.inventory,
+    cursor: null,
+    crafting: createCraftingGrid(2)
+  });
+  const [selectedSlot, setSelectedSlot] = useState(player.selectedSlot);
+  const [isOpen, setIsOpen] = useState(false);
+  const stateRef = useRef({ inventory: player.inventory, selectedSlot: player.selectedSlot });
+
+  useEffect(() => {
+    stateRef.current = { inventory: inventory.slots, selectedSlot };
+  }, [inventory, selectedSlot]);
+
+  // The player's own grid is 2×2; crafting tables open a 3×3 one. Stacks left over from a full
+  // inventory get another chance to go back before the grid is resized around them.
+  const open = useCallback((craftingSize: number) => {
+    setInventory(state => {
+      const returned = returnLooseItems(state);
+      return { ...returned, crafting: resizeCraftingGrid(returned.crafting, craftingSize) };
+    });
+    setIsOpen(true);
+    document.exitPointerLock();
+  }, []);
+
+  // Whatever is still on the cursor or in the crafting grid goes back into the inventory if it fits
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setInventory(returnLooseItems);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return; // Typing in the recipe search
+
+      const digit = Number(event.key);
+      if (digit >= 1 && digit <= HOTBAR_SIZE) {
+        setSelectedSlot(digit - 1);
+      } else if (event.code === 'KeyE' && gameMode !== 'spectator') {
+        if (isOpen) {
+          close();
+        } else {
+          open(2);
+        }
+      } else if (event.code === 'Escape' && isOpen) {
+        close();
+      }
+    };
+    const handleWheel = (event: WheelEvent) => {
+      if (!document.pointerLockElement) return;
+      setSelectedSlot(slot => (slot + Math.sign(event.deltaY) + HOTBAR_SIZE) % HOTBAR_SIZE);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('wheel', handleWheel);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('wheel', handleWheel);
+    };
+  }, [isOpen, open, close, gameMode]);
+
+  const selected = inventory.slots[selectedSlot];
+  const heldItemId = selected?.itemId ?? 0;
+
+  // Creative mode neither collects drops, wears tools nor uses up placed blocks
+  const onBlockBroken = useCallback((blockType: number) => {
+    if (gameMode !== 'survival') return;
+
+    // Roll drops outside the state updater so a repeated updater call cannot reroll them
+    const drops = getDrops(blockType, heldItemId);
+    const wearsTool = (BLOCK_TYPES[blockType]?.hardness ?? 0) > 0;
+
+    setInventory(state => {
+      let slots = [...state.slots];
+      const held = slots[selectedSlot];
+      if (held && wearsTool) slots[selectedSlot] = wearTool(held);
+      drops.forEach(drop => {
+        slots = addItem(slots, drop).slots;
+      });
+      return { ...state, slots };
+    });
+  }, [gameMode, heldItemId, selectedSlot]);
+
+  // Use up one of the held item in survival
+  const consumeSelected = useCallback(() => {
+    if (gameMode !== 'survival') return;
+    setInventory(state => ({ ...state, slots: removeFromSlot(state.slots, selectedSlot) }));
+  }, [gameMode, selectedSlot]);
+
+  const onBlockUsed = useCallback((blockType: number) => {
+    if (blockType !== BLOCKS.CRAFTING_TABLE) return false;
+    open(3);
+    return true;
+  }, [open]);
+
+  return {
+    inventory,
+    setInventory,
+    selectedSlot,
+    setSelectedSlot,
+    heldItemId,
+    selectedBlock: getItemType(heldItemId)?.placesBlock ?? 0,
+    isOpen,
+    close,
+    stateRef,
+    consumeSelected,
+    onBlockBroken,
+    onBlockPlaced: consumeSelected,
+    onBlockUsed
+  };
+};
+
+// Health and hunger in survival. Exhaustion from sprinting and jumping collects in a ref and is
+// applied on the vitals tick, so movement does not cause a re-render every frame.
+// `stateRef` always holds the latest stats for saving.
+const usePlayerVitals = (
+  player: SavedPlayer,
+  gameMode: GameState['gameMode'],
+  positionRef: React.MutableRefObject<[number, number, number]>
+) => {
+  const [vitals, setVitals] = useState<Vitals>(() => createVitals(player.health, player.hunger));
+  const pendingExhaustion = useRef(0);
+  const stateRef = useRef({ health: player.health, hunger: player.hunger });
+  const survival = gameMode === 'survival';
+  const dead = survival && isDead(vitals);
+
+  useEffect(() => {
+    stateRef.current = { health: vitals.health, hunger: vitals.hunger };
+  }, [vitals]);
+
+  // Suffocation, regeneration and starvation every VITALS_TICK_SECONDS of simulation time;
+  // nothing ticks while dead
+  useEffect(() => {
+    if (!survival || dead) return;
+
+    let elapsed = 0;
+    return simulation.subscribe((_, seconds) => {
+      elapsed += seconds;
+      if (elapsed < VITALS_TICK_SECONDS) return;
+      elapsed -= VITALS_TICK_SECONDS;
+
+      const [x, y, z] = positionRef.current;
+      const headBlock = world.getBlock(Math.floor(x), Math.floor(y + EYE_HEIGHT), Math.floor(z));
+      const feetBlock = world.getBlock(Math.floor(x), Math.floor(y), Math.floor(z));
+      const exhaustion = pendingExhaustion.current;
+      pendingExhaustion.current = 0;
+      setVitals(current => tickVitals(addExhaustion(current, exhaustion), headBlock, feetBlock));
+    }, TICK_PHASE.ENTITIES);
+  }, [survival, dead, positionRef]);
+
+  // Dying releases the mouse so the death screen can be clicked
+  useEffect(() => {
+    if (dead) document.exitPointerLock();
+  }, [dead]);
+
+  const onLand = useCallback((impactSpeed: number) => {
+    if (!survival) return;
+    const fallDamage = getFallDamage(impactSpeed, GRAVITY);
+    if (fallDamage > 0) setVitals(current => damage(current, fallDamage));
+  }, [survival]);
+
+  const onSprint = useCallback((distance: number) => {
+    if (survival) pendingExhaustion.current += distance * SPRINT_EXHAUSTION;
+  }, [survival]);
+
+  const onJump = useCallback((sprinting: boolean) => {
+    if (survival) pendingExhaustion.current += sprinting ? SPRINT_JUMP_EXHAUSTION : JUMP_EXHAUSTION;
+  }, [survival]);
+
+  // Eat the held item if it is food; returns true when it was eaten
+  const tryEat = useCallback((itemId: number) => {
+    const food = getItemType(itemId)?.food;
+    if (!survival || !food || !canEat(vitals, food)) return false;
+    setVitals(current => eat(current, food));
+    return true;
+  }, [survival, vitals]);
+
+  const respawn = useCallback(() => {
+    pendingExhaustion.current = 0;
+    setVitals(createVitals());
+  }, []);
+
+  return {
+    vitals,
+    dead,
+    canSprint: !survival || canSprint(vitals),
+    stateRef,
+    onLand,
+    onSprint,
+    onJump,
+    tryEat,
+    respawn
+  };
+};
+
+// Restores the saved look direction and keeps `rotationRef` in sync as [pitch, yaw]
+const CameraRotationSync: React.FC<{
+  initialRotation: [number, number];
+  rotationRef: React.MutableRefObject<[number, number]>;
+}> = ({ initialRotation, rotationRef }) => {
+  const { camera } = useThree();
+  const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'));
+
+  useEffect(() => {
+    camera.quaternion.setFromEuler(new THREE.Euler(initialRotation[0], initialRotation[1], 0, 'YXZ'));
+  }, [camera, initialRotation]);
+
+  useFrame(() => {
+    euler.current.setFromQuaternion(camera.quaternion, 'YXZ');
+    rotationRef.current = [euler.current.x, euler.current.y];
+  });
+
+  return null;
+};
 
 // Stable Chunk Manager with less aggressive loading/unloading
 const StableChunkManager: React.FC<{
   playerPosition: [number, number, number];
-  onChunksChange: (chunks: Map<string, Chunk>) => void;
-}> = ({ playerPosition, onChunksChange }) => {
-  const chunksRef = useRef(new Map<string, Chunk>());
+}> = ({ playerPosition }) => {
   const loadingChunks = useRef(new Set<string>());
   const lastPlayerChunk = useRef({ x: 0, z: 0 });
     // Much smaller chunk loading parameters for performance
@@ -31,19 +379,16 @@ const StableChunkManager: React.FC<{
   }, [playerPosition]);
 
   const loadChunk = useCallback(async (chunkX: number, chunkZ: number) => {
-    const key = `${chunkX},${chunkZ}`;
+    const key = world.getChunkKey(chunkX, chunkZ);
     
-    if (chunksRef.current.has(key) || loadingChunks.current.has(key)) {
+    if (world.hasChunk(chunkX, chunkZ) || loadingChunks.current.has(key)) {
       return;
     }
     
     loadingChunks.current.add(key);
       try {
-      // Use optimized generator for better performance
-      const chunk = optimizedStableWorldGenerator.generateChunk(chunkX, chunkZ);
-      
-      chunksRef.current.set(key, chunk);
-      onChunksChange(new Map(chunksRef.current));
+      // The world generates through the stable generator and notifies subscribers
+      world.loadChunk(chunkX, chunkZ);
       
       console.log(`🌍 StableChunkManager: Loaded chunk (${chunkX}, ${chunkZ})`);
     } catch (error) {
@@ -51,33 +396,18 @@ const StableChunkManager: React.FC<{
     } finally {
       loadingChunks.current.delete(key);
     }
-  }, [onChunksChange]);
+  }, []);
 
   const unloadDistantChunks = useCallback(() => {
     const playerChunk = getPlayerChunk();
-    const toRemove: string[] = [];
-    
-    for (const [key, chunk] of chunksRef.current.entries()) {
-      const distance = Math.sqrt(
-        (chunk.x - playerChunk.x) ** 2 + (chunk.z - playerChunk.z) ** 2
-      );
-      
-      if (distance > UNLOAD_DISTANCE) {
-        toRemove.push(key);
-      }
-    }
       // Only unload if we have too many chunks - much more aggressive
-    if (chunksRef.current.size > 12) { // Reduced from 25
-      toRemove.forEach(key => {
-        chunksRef.current.delete(key);
-        console.log(`🗑️  StableChunkManager: Unloaded distant chunk ${key}`);
-      });
-      
-      if (toRemove.length > 0) {
-        onChunksChange(new Map(chunksRef.current));
+    if (world.chunkCount > 12) { // Reduced from 25
+      const removed = world.unloadDistantChunks(playerChunk.x, playerChunk.z, UNLOAD_DISTANCE);
+      if (removed > 0) {
+        console.log(`🗑️  StableChunkManager: Unloaded ${removed} distant chunks`);
       }
     }
-  }, [getPlayerChunk, onChunksChange]);
+  }, [getPlayerChunk]);
 
   // Load chunks around player
   useEffect(() => {
@@ -89,7 +419,7 @@ const StableChunkManager: React.FC<{
       
       lastPlayerChunk.current = playerChunk;
         // Load chunks in spiral pattern for smoother loading
-      const chunksToLoad = optimizedStableWorldGenerator.getChunksInRadius(
+      const chunksToLoad = stableWorldGenerator.getChunksInRadius(
         playerChunk.x, 
         playerChunk.z, 
         RENDER_DISTANCE
@@ -110,31 +440,212 @@ const StableChunkManager: React.FC<{
   return null;
 };
 
+// Exposes a function that renders the current view into a small JPEG for the save list
+const ThumbnailCapture: React.FC<{
+  captureRef: React.MutableRefObject<(() => string | undefined) | null>;
+}> = ({ captureRef }) => {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    captureRef.current = () => {
+      try {
+        // Render right before reading so the drawing buffer is still populated
+        gl.render(scene, camera);
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = THUMBNAIL_HEIGHT;
+        canvas.getContext('2d')?.drawImage(gl.domElement, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+        return canvas.toDataURL('image/jpeg', 0.7);
+      } catch (error) {
+        console.warn('⚠️ StableMinecraftWorld: Failed to capture thumbnail:', error);
+        return undefined;
+      }
+    };
+
+    return () => {
+      captureRef.current = null;
+    };
+  }, [gl, scene, camera, captureRef]);
+
+  return null;
+};
+
+interface StableMinecraftWorldProps {
+  slot?: SaveSlot;
+}
+
 // Main stable world component with performance optimizations
-const StableMinecraftWorld: React.FC = () => {
-  const [playerPosition, setPlayerPosition] = useState<[number, number, number]>([8, 50, 8]); // Higher spawn
+const StableMinecraftWorld: React.FC<StableMinecraftWorldProps> = ({ slot }) => {
+  const { player, save } = useWorldSession(slot);
+
+  if (!player) {
+    return (
+      <div style={{
+        width: '100vw',
+        height: '100vh',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        background: '#1a1a2e',
+        color: 'white',
+        fontFamily: 'monospace',
+        fontSize: '18px'
+      }}>
+        📂 Loading {slot?.name ?? 'world'}...
+      </div>
+    );
+  }
+
+  return <StableWorldSession slot={slot} player={player} save={save} />;
+};
+
+const StableWorldSession: React.FC<{
+  slot?: SaveSlot;
+  player: SavedPlayer;
+  save: (state: SavedPlayer, changes: SlotChanges) => Promise<void>;
+}> = ({ slot, player, save }) => {
+  const [playerPosition, setPlayerPosition] = useState<[number, number, number]>(player.position);
   const [chunks, setChunks] = useState<Map<string, Chunk>>(new Map());
   const hudState = useHUDState();
+  const positionRef = useRef(player.position);
+  const rotationRef = useRef<[number, number]>(player.rotation);
+  const [gameMode, setGameMode] = useState<GameState['gameMode']>(slot?.gameMode ?? 'creative');
+  const gameModeRef = useRef(gameMode);
+  const [flying, setFlying] = useState(false);
+  const [ambientOcclusion, setAmbientOcclusion] = useState(() => graphicsSettings.current.ambientOcclusion);
+  const inventory = usePlayerInventory(player, gameMode);
+  const inventoryStateRef = inventory.stateRef;
+  const vitals = usePlayerVitals(player, gameMode, positionRef);
+  const vitalsStateRef = vitals.stateRef;
+  const [life, setLife] = useState(0); // Remounts the controller on respawn so no velocity carries over
+  const captureRef = useRef<(() => string | undefined) | null>(null);
+
+  // Autosave, save when the tab is hidden or closed, and save on the way back to the menu
+  useEffect(() => {
+    const saveNow = () => {
+      save({
+        ...player,
+        position: positionRef.current,
+        rotation: rotationRef.current,
+        ...inventoryStateRef.current,
+        ...vitalsStateRef.current
+      }, { gameMode: gameModeRef.current, time: simulation.tick, thumbnail: captureRef.current?.() });
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+
+    const interval = window.setInterval(saveNow, AUTOSAVE_INTERVAL);
+    window.addEventListener('beforeunload', saveNow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('beforeunload', saveNow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      saveNow();
+    };
+  }, [player, save, inventoryStateRef, vitalsStateRef]);
+
+  // World time carries on from the save; block updates run on the same clock as the player
+  useEffect(() => {
+    simulation.reset(slot?.time ?? 0);
+    return simulation.subscribe(tick => world.tick(tick), TICK_PHASE.BLOCKS);
+  }, [slot]);
+
+  // F4 cycles survival → creative → spectator; /gamemode does the same from the command bar
+  useEffect(() => {
+    gameModeRef.current = gameMode;
+  }, [gameMode]);
+
+  // F6 toggles ambient occlusion, which is off by default on low-end devices
+  useEffect(() => graphicsSettings.subscribe(options => setAmbientOcclusion(options.ambientOcclusion)), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.code === 'F4') {
+        event.preventDefault();
+        setGameMode(current => GAME_MODE_ORDER[(GAME_MODE_ORDER.indexOf(current) + 1) % GAME_MODE_ORDER.length]);
+      } else if (event.code === 'F6') {
+        event.preventDefault();
+        graphicsSettings.update({ ambientOcclusion: !graphicsSettings.current.ambientOcclusion });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const commandContext = useMemo(() => ({
+    setGameMode,
+    getTime: () => simulation.tick,
+    setTime: (time: number) => simulation.reset(time)
+  }), []);
+
+  // Mirror the shared world into React state; renderer and HUD read from here. A fluid tick can
+  // edit hundreds of blocks, so changes are gathered and mirrored once per frame.
+  useEffect(() => {
+    let frame = 0;
+    const syncChunks = () => {
+      frame = 0;
+      setChunks(new Map(world.getLoadedChunks().map(chunk => [world.getChunkKey(chunk.x, chunk.z), chunk])));
+    };
+    const scheduleSync = () => {
+      if (!frame) frame = requestAnimationFrame(syncChunks);
+    };
+
+    syncChunks();
+    const unsubscribe = world.subscribe(scheduleSync);
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(frame);
+    };
+  }, []);
 
   // Render visible chunks
   const visibleChunks = useMemo(() => {
     return Array.from(chunks.values()).filter(chunk => chunk.isReady);
   }, [chunks]);
 
-  const handleChunksChange = useCallback((newChunks: Map<string, Chunk>) => {
-    setChunks(newChunks);
-  }, []);
-
+  const lastPositionRender = useRef({ time: 0, chunkX: NaN, chunkZ: NaN });
   const handlePlayerMove = useCallback((newPosition: [number, number, number]) => {
+    positionRef.current = newPosition;
+
+    const chunkX = Math.floor(newPosition[0] / CHUNK_SIZE);
+    const chunkZ = Math.floor(newPosition[2] / CHUNK_SIZE);
+    const now = performance.now();
+    const last = lastPositionRender.current;
+    if (chunkX === last.chunkX && chunkZ === last.chunkZ && now - last.time < POSITION_RENDER_INTERVAL) return;
+
+    lastPositionRender.current = { time: now, chunkX, chunkZ };
     setPlayerPosition(newPosition);
   }, []);
 
+  const { tryEat, respawn } = vitals;
+  const { heldItemId, consumeSelected } = inventory;
+  const handleItemUsed = useCallback(() => {
+    if (!tryEat(heldItemId)) return false;
+    consumeSelected();
+    return true;
+  }, [tryEat, heldItemId, consumeSelected]);
+
+  // Inventory is kept; the player comes back at the world spawn with full stats. The controller
+  // remounts at playerPosition, so the spawn point goes into state without throttling.
+  const handleRespawn = useCallback(() => {
+    const spawn = findSpawnPoint();
+    positionRef.current = spawn;
+    setPlayerPosition(spawn);
+    respawn();
+    setLife(count => count + 1);
+  }, [respawn]);
+
   console.log(`🎮 StableMinecraftWorld: Rendering with ${visibleChunks.length} chunks, player at (${playerPosition[0].toFixed(1)}, ${playerPosition[1].toFixed(1)}, ${playerPosition[2].toFixed(1)})`);
 
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>      <Canvas
         camera={{ 
-          position: [8, 50, 8], // Match player spawn position
+          position: [player.position[0], player.position[1] + EYE_HEIGHT, player.position[2]], // Match player spawn position
           fov: 75,
           near: 0.1,
           far: 500 // Reduced from 1000
@@ -147,38 +658,49 @@ const StableMinecraftWorld: React.FC = () => {
         }}
       >
         <Suspense fallback={null}>
-          {/* Enhanced Lighting */}
-          <ambientLight intensity={0.4} />
-          <directionalLight 
-            position={[50, 100, 50]} 
-            intensity={0.8}
-            castShadow={false}
-          />
-          
-          {/* Beautiful Sky */}
-          <Sky
-            distance={450000}
-            sunPosition={[100, 20, 100]}
-            inclination={0}
-            azimuth={0.25}
-          />
-
-          {/* Stable Player Controller */}
-          <StablePlayerController
-            position={playerPosition}
-            onPositionChange={handlePlayerMove}
-          />
+          <SimulationLoop />
+
+          {/* Sky, sun, moon and lights follow the world clock */}
+          <DayNightCycle />
+
+          {/* Stable Player Controller - dead players neither move nor interact */}
+          {!vitals.dead && (
+            <StablePlayerController
+              key={life}
+              position={playerPosition}
+              onPositionChange={handlePlayerMove}
+              gameMode={gameMode}
+              onFlyingChange={setFlying}
+              canSprint={vitals.canSprint}
+              onLand={vitals.onLand}
+              onSprint={vitals.onSprint}
+              onJump={vitals.onJump}
+            />
+          )}
 
           {/* Mouse Controls */}
           <PointerLockControls />
+          {!vitals.dead && gameMode !== 'spectator' && (
+            <BlockInteraction
+              selectedBlock={inventory.selectedBlock}
+              heldItemId={inventory.heldItemId}
+              gameMode={gameMode}
+              onBlockBroken={inventory.onBlockBroken}
+              onBlockPlaced={inventory.onBlockPlaced}
+              onBlockUsed={inventory.onBlockUsed}
+              onItemUsed={handleItemUsed}
+              positionRef={positionRef}
+            />
+          )}
+          <CameraRotationSync initialRotation={player.rotation} rotationRef={rotationRef} />
+          {slot && <ThumbnailCapture captureRef={captureRef} />}
 
           {/* Render Chunks */}
           <group>
             {visibleChunks.map((chunk) => (
-              <SimpleChunkComponent
+              <ChunkMesh
                 key={`chunk-${chunk.x}-${chunk.z}`}
-                blocks={chunk.blocks}
-                chunkKey={`${chunk.x}-${chunk.z}`}
+                chunk={chunk}
               />
             ))}
           </group>
@@ -186,7 +708,6 @@ const StableMinecraftWorld: React.FC = () => {
           {/* Chunk Manager */}
           <StableChunkManager
             playerPosition={playerPosition}
-            onChunksChange={handleChunksChange}
           />          {/* HUD Updater */}
           <HUDUpdater
             setHUDData={hudState.setHUDData}
@@ -194,6 +715,7 @@ const StableMinecraftWorld: React.FC = () => {
             renderDistance={2}
             visibleChunks={visibleChunks.length}
             totalChunks={chunks.size}
+            biome={world.getBiomeAt(playerPosition[0], playerPosition[2])?.name}
           />{/* Memory Management */}
           <MemoryManager />
           
@@ -206,6 +728,26 @@ const StableMinecraftWorld: React.FC = () => {
       <Crosshair />
       <ControlsHint />
       <GameHUD hudData={hudState.hudData} />
+      {gameMode === 'survival' && <StatusBars health={vitals.vitals.health} hunger={vitals.vitals.hunger} air={vitals.vitals.air} />}
+      {gameMode !== 'spectator' && (
+        <Hotbar
+          slots={inventory.inventory.slots}
+          selectedSlot={inventory.selectedSlot}
+          showCounts={gameMode === 'survival'}
+          onSelect={inventory.setSelectedSlot}
+        />
+      )}
+      {inventory.isOpen && (
+        <InventoryScreen
+          gameMode={gameMode}
+          state={inventory.inventory}
+          onChange={inventory.setInventory}
+          onClose={inventory.close}
+        />
+      )}
+      <CommandBar context={commandContext} />
+      <WorldClock />
+      {vitals.dead && <DeathScreen onRespawn={handleRespawn} />}
 
       {/* Game Info */}
       <div style={{
@@ -222,11 +764,16 @@ const StableMinecraftWorld: React.FC = () => {
         padding: '10px',
         borderRadius: '5px'
       }}>
-        <div>🌍 Stable Minecraft World</div>
+        <div>🌍 {slot?.name ?? 'Stable Minecraft World'}</div>
+        <div>🌱 Seed: {slot?.seed ?? stableWorldGenerator.seed}</div>
         <div>📍 Position: ({playerPosition[0].toFixed(1)}, {playerPosition[1].toFixed(1)}, {playerPosition[2].toFixed(1)})</div>
         <div>📦 Chunks: {chunks.size}</div>
-        <div>🧱 Blocks: {visibleChunks.reduce((total, chunk) => total + chunk.blocks.length, 0)}</div>
-        <div>🎮 WASD + Mouse + Space to jump</div>
+        <div>🧱 Blocks: {visibleChunks.reduce((total, chunk) => total + getChunkData(chunk).blockCount, 0)}</div>
+        <div>🎮 WASD + Mouse + Space to jump · Shift sneak · Double-tap W sprint</div>
+        <div>🎲 Mode: {GAME_MODE_NAMES[gameMode]}{flying && gameMode === 'creative' ? ' · ✈️ Flying' : ''}</div>
+        <div>🖱️ Left click break · Right click place or eat · 1-9 select · E inventory</div>
+        <div>⌨️ F4 switch mode · T or / command{gameMode === 'creative' ? ' · Double-tap Space to fly' : ''}</div>
+        <div>🌓 Ambient occlusion: {ambientOcclusion ? 'On' : 'Off'} (F6)</div>
       </div>
     </div>
   );
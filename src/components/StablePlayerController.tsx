@@ -1,45 +1,113 @@
-// Enhanced Player Controller with Realistic Physics and Block Collision
+// Enhanced Player Controller with Realistic Physics and Block Collision.
+// Survival walks with gravity, creative can also fly, spectators fly straight through terrain.
 import React, { useRef, useEffect } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
-import { stableWorldGenerator } from '../utils/stableWorldGenerator';
+import { world } from '../utils/world';
+import { clipToSupport, createEntityBox, moveBoxWithStep } from '../utils/aabbCollision';
+import { TICK_PHASE, simulation } from '../utils/simulation';
+import { getFluid } from '../utils/fluids';
+import type { GameState } from '../types/game';
 import * as THREE from 'three';
 
+// The controlled position is the centre of the player's feet; the camera sits at EYE_HEIGHT above it
+export const PLAYER_HEIGHT = 1.8;
+export const PLAYER_WIDTH = 0.6;
+export const EYE_HEIGHT = 1.62;
+const SNEAK_EYE_HEIGHT = 1.27;
+
+// Player physics constants
+const MOVE_SPEED = 8;
+const JUMP_POWER = 12;
+export const GRAVITY = -35;
+const MAX_FALL_SPEED = -40;
+const STEP_HEIGHT = 0.5; // Ledges up to half a block are climbed without jumping
+const SNEAK_SPEED_FACTOR = 0.3;
+const FLY_SPEED = 11;
+const FLY_VERTICAL_SPEED = 8;
+// Swimming: the block this far above the feet decides whether the player is in a fluid
+const SWIM_SAMPLE_HEIGHT = 0.4;
+const SWIM_GRAVITY_FACTOR = 0.2; // Buoyancy cancels most of gravity
+const MAX_SINK_SPEED = -3;
+const SWIM_UP_SPEED = 4;
+const SWIM_EXIT_SPEED = 7; // Pushing against a bank with Space held climbs out onto it
+const FLUID_SPEED_FACTOR = { water: 0.5, lava: 0.3 } as const;
+const DOUBLE_TAP_TIME = 300; // ms between presses: W twice sprints, Space twice toggles creative flight
+
+// Physics runs on the shared simulation's fixed ticks (see SimulationLoop); render frames only
+// interpolate the camera between the last two ticks.
 interface StablePlayerControllerProps {
-  position: [number, number, number];
-  onPositionChange: (position: [number, number, number]) => void;
+  position: [number, number, number]; // Starting position; remount with a new key to teleport
+  onPositionChange: (position: [number, number, number]) => void; // Called once per tick
+  gameMode?: GameState['gameMode'];
+  canSprint?: boolean;
+  onFlyingChange?: (flying: boolean) => void;
+  onLand?: (impactSpeed: number) => void; // Downward speed when touching the ground after a fall
+  onSprint?: (distance: number) => void; // Horizontal blocks covered while sprinting
+  onJump?: (sprinting: boolean) => void;
 }
 
 export const StablePlayerController: React.FC<StablePlayerControllerProps> = ({
   position,
-  onPositionChange
+  onPositionChange,
+  gameMode = 'survival',
+  canSprint = true,
+  onFlyingChange,
+  onLand,
+  onSprint,
+  onJump
 }) => {
   const { camera } = useThree();
   const velocity = useRef(new THREE.Vector3());
   const isGrounded = useRef(false);
+  const isFlying = useRef(gameMode === 'spectator');
+  const isSneaking = useRef(false);
+  const previousFeet = useRef(position);
+  const currentFeet = useRef(position);
   const keys = useRef({
     w: false, a: false, s: false, d: false,
-    space: false, shift: false
+    space: false, shift: false,
+    sprint: false, // Double-tapping W sprints until W is released
+    lastForwardTap: 0,
+    lastSpaceTap: 0,
+    toggleFlight: false // Set by a double tap, consumed by the next physics step
   });
 
-  // Player physics constants
-  const MOVE_SPEED = 8;
-  const JUMP_POWER = 12;
-  const GRAVITY = -35;
-  const MAX_FALL_SPEED = -20;
-  const PLAYER_HEIGHT = 1.8;
-  const PLAYER_WIDTH = 0.6;
+  const setFlying = (flying: boolean) => {
+    if (isFlying.current === flying) return;
+    isFlying.current = flying;
+    velocity.current.set(0, 0, 0);
+    onFlyingChange?.(flying);
+  };
 
   // Set up keyboard controls
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return; // Typing a command
+
       switch (event.code) {
-        case 'KeyW': keys.current.w = true; break;
+        case 'KeyW':
+          keys.current.w = true;
+          if (!event.repeat) {
+            const now = performance.now();
+            keys.current.sprint = now - keys.current.lastForwardTap < DOUBLE_TAP_TIME;
+            keys.current.lastForwardTap = now;
+          }
+          break;
         case 'KeyA': keys.current.a = true; break;
         case 'KeyS': keys.current.s = true; break;
         case 'KeyD': keys.current.d = true; break;
         case 'Space': 
           keys.current.space = true; 
           event.preventDefault(); 
+          if (!event.repeat) {
+            const now = performance.now();
+            if (now - keys.current.lastSpaceTap < DOUBLE_TAP_TIME) {
+              keys.current.toggleFlight = true;
+              keys.current.lastSpaceTap = 0;
+            } else {
+              keys.current.lastSpaceTap = now;
+            }
+          }
           break;
         case 'ShiftLeft': keys.current.shift = true; break;
       }
@@ -47,7 +115,10 @@ export const StablePlayerController: React.FC<StablePlayerControllerProps> = ({
 
     const handleKeyUp = (event: KeyboardEvent) => {
       switch (event.code) {
-        case 'KeyW': keys.current.w = false; break;
+        case 'KeyW':
+          keys.current.w = false;
+          keys.current.sprint = false;
+          break;
         case 'KeyA': keys.current.a = false; break;
         case 'KeyS': keys.current.s = false; break;
         case 'KeyD': keys.current.d = false; break;
@@ -65,52 +136,25 @@ export const StablePlayerController: React.FC<StablePlayerControllerProps> = ({
     };
   }, []);
 
-  // Enhanced collision detection
-  const checkCollision = (pos: THREE.Vector3): boolean => {
-    const playerBottom = pos.y - PLAYER_HEIGHT;
-    const playerTop = pos.y;
-    const playerLeft = pos.x - PLAYER_WIDTH / 2;
-    const playerRight = pos.x + PLAYER_WIDTH / 2;
-    const playerFront = pos.z + PLAYER_WIDTH / 2;
-    const playerBack = pos.z - PLAYER_WIDTH / 2;
-
-    // Check all blocks that could intersect with player
-    for (let x = Math.floor(playerLeft); x <= Math.ceil(playerRight); x++) {
-      for (let y = Math.floor(playerBottom); y <= Math.ceil(playerTop); y++) {
-        for (let z = Math.floor(playerBack); z <= Math.ceil(playerFront); z++) {
-          if (stableWorldGenerator.isBlockAt(x, y, z)) {
-            // Check if player bounding box intersects with block
-            const blockLeft = x;
-            const blockRight = x + 1;
-            const blockBottom = y;
-            const blockTop = y + 1;
-            const blockBack = z;
-            const blockFront = z + 1;
-
-            if (playerRight > blockLeft && playerLeft < blockRight &&
-                playerTop > blockBottom && playerBottom < blockTop &&
-                playerFront > blockBack && playerBack < blockFront) {
-              return true;
-            }
-          }
-        }
-      }
-    }
-    return false;  };
+  const isSolid = (x: number, y: number, z: number) => world.isSolid(x, y, z);
 
-  // Get the highest solid block Y position under the player
-  const getGroundHeight = (x: number, z: number): number => {
-    for (let y = Math.floor(position[1]); y >= 0; y--) {
-      if (stableWorldGenerator.isBlockAt(Math.floor(x), y, Math.floor(z))) {
-        return y + 1; // Stand on top of the block
-      }
-    }
-    return 0; // Default ground level
-  };
+  // Advance the physics by `delta` seconds from the feet position `feet`
+  const step = (feet: [number, number, number], delta: number): [number, number, number] => {
+    // Spectators always fly and survival players never do; a double tap toggles it in creative
+    const toggleFlight = keys.current.toggleFlight;
+    keys.current.toggleFlight = false;
+    if (gameMode === 'spectator') setFlying(true);
+    else if (gameMode === 'survival') setFlying(false);
+    else if (toggleFlight) setFlying(!isFlying.current);
+
+    const flying = isFlying.current;
+    const noclip = gameMode === 'spectator';
+    const fluid = flying ? undefined : getFluid(world.getBlock(feet[0], feet[1] + SWIM_SAMPLE_HEIGHT, feet[2]));
+    // Shift descends while flying or swimming and sneaks on foot
+    const sneaking = keys.current.shift && !flying && !fluid;
+    const sprinting = keys.current.sprint && canSprint && !sneaking && !flying;
+    isSneaking.current = sneaking;
 
-  useFrame((_, delta) => {
-    const currentPos = new THREE.Vector3(...position);
-    
     // Get camera direction
     const direction = new THREE.Vector3();
     camera.getWorldDirection(direction);
@@ -122,9 +166,10 @@ export const StablePlayerController: React.FC<StablePlayerControllerProps> = ({
 
     // Handle movement input
     const moveVector = new THREE.Vector3();
-    let speed = MOVE_SPEED;
-    
-    if (keys.current.shift) speed *= 2; // Sprint
+    let speed = flying ? FLY_SPEED : MOVE_SPEED;
+    if (sprinting) speed *= 2; // Sprint
+    if (sneaking) speed *= SNEAK_SPEED_FACTOR;
+    if (fluid) speed *= FLUID_SPEED_FACTOR[fluid];
     
     if (keys.current.w) moveVector.add(direction);
     if (keys.current.s) moveVector.sub(direction);
@@ -135,67 +180,85 @@ export const StablePlayerController: React.FC<StablePlayerControllerProps> = ({
       moveVector.normalize().multiplyScalar(speed * delta);
     }
 
-    // Apply gravity
-    velocity.current.y += GRAVITY * delta;
-    velocity.current.y = Math.max(velocity.current.y, MAX_FALL_SPEED);
+    if (flying) {
+      // No gravity: Space rises, Shift descends
+      velocity.current.y = (Number(keys.current.space) - Number(keys.current.shift)) * FLY_VERTICAL_SPEED;
+    } else if (fluid) {
+      // Sink slowly, swim up with Space; entering a fluid also breaks a fall
+      velocity.current.y += GRAVITY * SWIM_GRAVITY_FACTOR * delta;
+      velocity.current.y = Math.max(velocity.current.y, MAX_SINK_SPEED * (keys.current.shift ? 2 : 1));
+      if (keys.current.space) velocity.current.y = Math.max(velocity.current.y, SWIM_UP_SPEED);
+    } else {
+      // Apply gravity
+      velocity.current.y += GRAVITY * delta;
+      velocity.current.y = Math.max(velocity.current.y, MAX_FALL_SPEED);
+    }
 
     // Handle jumping
-    if (keys.current.space && isGrounded.current) {
+    if (!flying && !fluid && keys.current.space && isGrounded.current) {
       velocity.current.y = JUMP_POWER;
       isGrounded.current = false;
+      onJump?.(sprinting);
     }
 
-    // Calculate new position with collision detection
-    let newPos = currentPos.clone();
+    const motion: [number, number, number] = [moveVector.x, velocity.current.y * delta, moveVector.z];
 
-    // Handle horizontal movement with collision
-    if (moveVector.x !== 0) {
-      const testPos = newPos.clone();
-      testPos.x += moveVector.x;
-      if (!checkCollision(testPos)) {
-        newPos.x = testPos.x;
-      }
+    if (noclip) {
+      return [feet[0] + motion[0], feet[1] + motion[1], feet[2] + motion[2]];
     }
 
-    if (moveVector.z !== 0) {
-      const testPos = newPos.clone();
-      testPos.z += moveVector.z;
-      if (!checkCollision(testPos)) {
-        newPos.z = testPos.z;
-      }
+    const box = createEntityBox(feet, PLAYER_WIDTH, PLAYER_HEIGHT);
+    if (sneaking && isGrounded.current) {
+      [motion[0], motion[2]] = clipToSupport(box, motion[0], motion[2], STEP_HEIGHT, isSolid);
     }
 
-    // Handle vertical movement with collision
-    const verticalMove = velocity.current.y * delta;
-    const testPos = newPos.clone();
-    testPos.y += verticalMove;
-
-    if (verticalMove < 0) {
-      // Falling - check for ground collision
-      if (checkCollision(testPos)) {
-        // Hit ground - place player on top of highest block
-        const groundHeight = getGroundHeight(newPos.x, newPos.z);
-        newPos.y = groundHeight + PLAYER_HEIGHT;
-        velocity.current.y = 0;
-        isGrounded.current = true;
-      } else {
-        newPos.y = testPos.y;
-        isGrounded.current = false;
-      }
-    } else {
-      // Rising - check for ceiling collision
-      if (checkCollision(testPos)) {
-        // Hit ceiling
-        velocity.current.y = 0;
-      } else {
-        newPos.y = testPos.y;
-        isGrounded.current = false;
-      }
+    // Resolve X, Y and Z against the terrain, climbing half-block steps on the way
+    const { offset, collided } = moveBoxWithStep(box, motion, STEP_HEIGHT, isGrounded.current, isSolid);
+    const landed = collided[1] && motion[1] < 0;
+
+    if (landed) {
+      // Flying down onto the ground lands
+      if (flying) setFlying(false);
+      else if (!isGrounded.current && !fluid) onLand?.(-velocity.current.y);
+      velocity.current.y = 0;
+    } else if (collided[1]) {
+      velocity.current.y = 0; // Hit the ceiling
+    }
+    isGrounded.current = landed;
+    if (fluid && keys.current.space && (collided[0] || collided[2])) {
+      velocity.current.y = SWIM_EXIT_SPEED;
+    }
+
+    if (sprinting) {
+      const distance = Math.hypot(offset[0], offset[2]);
+      if (distance > 0) onSprint?.(distance);
     }
 
-    // Update camera and position
-    camera.position.copy(newPos);
-    onPositionChange([newPos.x, newPos.y, newPos.z]);
+    return [feet[0] + offset[0], feet[1] + offset[1], feet[2] + offset[2]];
+  };
+
+  // The tick listener is registered once, so it always calls the latest render's closure
+  const tick = (seconds: number) => {
+    previousFeet.current = currentFeet.current;
+    currentFeet.current = step(currentFeet.current, seconds);
+    onPositionChange(currentFeet.current);
+  };
+  const tickRef = useRef(tick);
+
+  useEffect(() => {
+    tickRef.current = tick;
+  });
+
+  useEffect(() => simulation.subscribe((_, seconds) => tickRef.current(seconds), TICK_PHASE.PLAYER), []);
+
+  useFrame(() => {
+    const alpha = simulation.alpha;
+    const previous = previousFeet.current;
+    const current = currentFeet.current;
+    const lerp = (axis: number) => previous[axis] + (current[axis] - previous[axis]) * alpha;
+
+    // The camera sits at eye height above the feet, a little lower while sneaking
+    camera.position.set(lerp(0), lerp(1) + (isSneaking.current ? SNEAK_EYE_HEIGHT : EYE_HEIGHT), lerp(2));
   });
 
   return null;
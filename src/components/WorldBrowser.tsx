@@ -0,0 +1,277 @@
+// World browser - create, list, rename, duplicate, delete, export and import save slots
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { worldStore } from '../utils/worldStore';
+import type { SaveSlot } from '../utils/worldStore';
+import { WORLD_TYPES } from '../utils/worldTypes';
+import type { WorldType } from '../utils/worldTypes';
+import { GAME_MODE_NAMES } from '../types/game';
+
+interface WorldBrowserProps {
+  onPlay: (slot: SaveSlot) => void;
+  onBack: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(255,255,255,0.2)',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '8px',
+  color: 'white',
+  cursor: 'pointer',
+  fontSize: '13px'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: '8px',
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(255,255,255,0.15)',
+  color: 'white',
+  fontSize: '14px'
+};
+
+const optionStyle: React.CSSProperties = { color: 'black' };
+
+// Trigger a browser download of text content
+const downloadFile = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const WorldBrowser: React.FC<WorldBrowserProps> = ({ onPlay, onBack }) => {
+  const [slots, setSlots] = useState<SaveSlot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [seed, setSeed] = useState('');
+  const [gameMode, setGameMode] = useState<SaveSlot['gameMode']>('creative');
+  const [worldType, setWorldType] = useState<WorldType>('default');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    worldStore.listSlots()
+      .then(setSlots)
+      .catch(err => {
+        console.error('❌ WorldBrowser: Failed to list worlds:', err);
+        setError('Could not read saved worlds');
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run a store action, then reload the list; failures are shown above the list
+  const run = useCallback((action: Promise<unknown>, failure: string) => {
+    setError(null);
+    action
+      .then(refresh)
+      .catch(err => {
+        console.error(`❌ WorldBrowser: ${failure}:`, err);
+        setError(`${failure}: ${(err as Error).message}`);
+      });
+  }, [refresh]);
+
+  const createWorld = () => {
+    const trimmedSeed = seed.trim();
+    setError(null);
+    worldStore.createSlot({
+      name: name.trim() || `World ${slots.length + 1}`,
+      seed: trimmedSeed || Math.floor(Math.random() * 0x7FFFFFFF),
+      gameMode,
+      worldType
+    })
+      .then(onPlay)
+      .catch(err => {
+        console.error('❌ WorldBrowser: Failed to create world:', err);
+        setError(`Failed to create world: ${(err as Error).message}`);
+      });
+  };
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const newName = renaming.name.trim();
+    setRenaming(null);
+    if (newName) run(worldStore.renameSlot(renaming.id, newName), 'Failed to rename world');
+  };
+
+  const exportWorld = (slot: SaveSlot) => {
+    setError(null);
+    worldStore.exportSlot(slot.id)
+      .then(content => downloadFile(`${slot.name.replace(/[^\w -]+/g, '_')}.world.json`, content))
+      .catch(err => {
+        console.error('❌ WorldBrowser: Failed to export world:', err);
+        setError(`Failed to export world: ${(err as Error).message}`);
+      });
+  };
+
+  const importWorld = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file twice
+    if (file) run(file.text().then(text => worldStore.importSlot(text)), 'Failed to import world');
+  };
+
+  return (
+    <div style={{
+      width: '100vw',
+      height: '100vh',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      background: 'linear-gradient(135deg, #87CEEB 0%, #6B9FE8 50%, #4682B4 100%)',
+      fontFamily: 'Arial, sans-serif',
+      color: 'white'
+    }}>
+      <div style={{
+        background: 'rgba(0,0,0,0.3)',
+        padding: '30px',
+        borderRadius: '20px',
+        backdropFilter: 'blur(10px)',
+        border: '1px solid rgba(255,255,255,0.2)',
+        width: '800px',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <h1 style={{ margin: 0, fontSize: '2em', textShadow: '2px 2px 4px rgba(0,0,0,0.5)' }}>💾 My Worlds</h1>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <button style={buttonStyle} onClick={() => importInput.current?.click()}>📥 Import</button>
+            <button style={buttonStyle} onClick={onBack}>⬅ Back</button>
+            <input ref={importInput} type="file" accept=".json,application/json" onChange={importWorld} style={{ display: 'none' }} />
+          </div>
+        </div>
+
+        {/* Create world */}
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: '2fr 1fr 1fr 1fr auto',
+          gap: '10px',
+          padding: '15px',
+          background: 'rgba(0,0,0,0.2)',
+          borderRadius: '10px',
+          marginBottom: '15px'
+        }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="World name" style={inputStyle} />
+          <input value={seed} onChange={(e) => setSeed(e.target.value)} placeholder="Seed (random)" style={inputStyle} />
+          <select value={gameMode} onChange={(e) => setGameMode(e.target.value as SaveSlot['gameMode'])} style={inputStyle}>
+            <option value="creative" style={optionStyle}>Creative</option>
+            <option value="survival" style={optionStyle}>Survival</option>
+            <option value="spectator" style={optionStyle}>Spectator</option>
+          </select>
+          <select
+            value={worldType}
+            onChange={(e) => setWorldType(e.target.value as WorldType)}
+            title={WORLD_TYPES[worldType].description}
+            style={inputStyle}
+          >
+            {(Object.keys(WORLD_TYPES) as WorldType[]).map(type => (
+              <option key={type} value={type} style={optionStyle}>{WORLD_TYPES[type].name}</option>
+            ))}
+          </select>
+          <button style={{ ...buttonStyle, background: '#00C853', border: 'none' }} onClick={createWorld}>
+            ➕ Create
+          </button>
+        </div>
+
+        {error && (
+          <div style={{ padding: '10px', background: 'rgba(244,67,54,0.6)', borderRadius: '8px', marginBottom: '15px' }}>
+            ❌ {error}
+          </div>
+        )}
+
+        {/* Saved worlds */}
+        <div style={{ overflowY: 'auto' }}>
+          {slots.length === 0 && (
+            <div style={{ opacity: 0.8, textAlign: 'center', padding: '20px' }}>No saved worlds yet</div>
+          )}
+          {slots.map(slot => (
+            <div
+              key={slot.id}
+              style={{
+                display: 'flex',
+                gap: '15px',
+                alignItems: 'center',
+                padding: '10px',
+                borderBottom: '1px solid rgba(255,255,255,0.15)'
+              }}
+            >
+              {slot.thumbnail ? (
+                <img src={slot.thumbnail} alt="" style={{ width: '128px', height: '72px', borderRadius: '6px', objectFit: 'cover' }} />
+              ) : (
+                <div style={{
+                  width: '128px',
+                  height: '72px',
+                  borderRadius: '6px',
+                  background: 'rgba(0,0,0,0.3)',
+                  display: 'flex',
+                  justifyContent: 'center',
+                  alignItems: 'center',
+                  fontSize: '2em'
+                }}>🌍</div>
+              )}
+
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {renaming?.id === slot.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: slot.id, name: e.target.value })}
+                    onBlur={finishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    style={{ ...inputStyle, padding: '4px 8px' }}
+                  />
+                ) : (
+                  <div style={{ fontWeight: 'bold', fontSize: '1.1em' }}>{slot.name}</div>
+                )}
+                <div style={{ fontSize: '0.8em', opacity: 0.8, marginTop: '4px' }}>
+                  Seed {slot.seed} · {GAME_MODE_NAMES[slot.gameMode]} · {WORLD_TYPES[slot.worldType].name}
+                </div>
+                <div style={{ fontSize: '0.8em', opacity: 0.8 }}>
+                  Last played {new Date(slot.lastPlayed).toLocaleString()}
+                </div>
+              </div>
+
+              {confirmDelete === slot.id ? (
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                  <span style={{ fontSize: '0.85em' }}>Delete forever?</span>
+                  <button
+                    style={{ ...buttonStyle, background: '#F44336', border: 'none' }}
+                    onClick={() => {
+                      setConfirmDelete(null);
+                      run(worldStore.deleteSlot(slot.id), 'Failed to delete world');
+                    }}
+                  >
+                    Delete
+                  </button>
+                  <button style={buttonStyle} onClick={() => setConfirmDelete(null)}>Cancel</button>
+                </div>
+              ) : (
+                <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', justifyContent: 'flex-end', maxWidth: '320px' }}>
+                  <button style={{ ...buttonStyle, background: '#00C853', border: 'none' }} onClick={() => onPlay(slot)}>▶ Play</button>
+                  <button style={buttonStyle} onClick={() => setRenaming({ id: slot.id, name: slot.name })}>✏️ Rename</button>
+                  <button
+                    style={buttonStyle}
+                    onClick={() => run(worldStore.duplicateSlot(slot.id, `${slot.name} (copy)`), 'Failed to duplicate world')}
+                  >
+                    📄 Duplicate
+                  </button>
+                  <button style={buttonStyle} onClick={() => exportWorld(slot)}>📤 Export</button>
+                  <button style={buttonStyle} onClick={() => setConfirmDelete(slot.id)}>🗑️ Delete</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,37 @@
-import * as THREE from 'three';
-
 // Types for the Minecraft clone game
+import blockDefinitions from '../data/blocks.json';
+import { blockRegistry } from '../utils/blockRegistry';
+
+export type ToolKind = 'pickaxe' | 'axe' | 'shovel';
+export type FluidKind = 'water' | 'lava';
+export type CollisionShape = 'cube' | 'none'; // 'none' lets players walk through, like torches and fluids
+export type BlockSoundGroup = 'stone' | 'wood' | 'grass' | 'gravel' | 'sand' | 'snow' | 'glass';
+
+// One possible drop; `chance` defaults to always
+export interface BlockDrop {
+  itemId: number;
+  count: number;
+  chance?: number;
+}
+
+// Loaded from src/data/blocks.json by the block registry; `id` is assigned at load time
 export interface BlockType {
   id: number;
+  key: string; // Namespaced string id such as "core:stone", stable across registry changes
   name: string;
   textureTop: string;
   textureSide: string;
   textureBottom: string;
   hardness: number;
   transparent: boolean;
+  collision: CollisionShape;
+  preferredTool?: ToolKind; // Breaks faster with this tool
+  requiredTier?: number; // Drops nothing unless broken with the preferred tool of at least this tier
+  drops?: BlockDrop[]; // Defaults to the block itself
+  fluid?: FluidKind;
+  fluidLevel?: number; // 0 for a source, 1-7 for flowing fluid further from it
+  lightEmission?: number; // Block light given off, 0-15
+  sounds?: BlockSoundGroup;
 }
 
 export interface Block {
@@ -23,6 +46,7 @@ export interface Chunk {
   z: number;
   blocks: Block[];
   isReady: boolean;
+  data?: ChunkData; // Dense storage; `blocks` is kept for legacy renderers
 }
 
 export interface Player {
@@ -31,75 +55,326 @@ export interface Player {
   velocity: [number, number, number];
   onGround: boolean;
   selectedBlock: number;
+  health: number; // Half hearts, 0-20
+  hunger: number; // Half drumsticks, 0-20
+}
+
+// A stack of one item in an inventory slot; `metadata` holds per-item state such as tool wear
+export interface ItemStack {
+  itemId: number;
+  count: number;
+  metadata?: Record<string, number>;
 }
 
+// Empty slots are null so slot indices stay stable
+export type InventorySlot = ItemStack | null;
+
+// Worlds are shared by seed; numeric strings are equivalent to the number they spell
+export type WorldSeed = string | number;
+
 export interface GameState {
   world: Map<string, Chunk>;
   player: Player;
-  inventory: number[];
-  gameMode: 'survival' | 'creative';
+  inventory: InventorySlot[];
+  gameMode: 'survival' | 'creative' | 'spectator';
   renderDistance: number;
 }
 
-export const BLOCK_TYPES: BlockType[] = [
+// Spectators fly through terrain and cannot interact with the world
+export const GAME_MODE_NAMES: Record<GameState['gameMode'], string> = {
+  survival: 'Survival',
+  creative: 'Creative',
+  spectator: 'Spectator'
+};
+
+// Anything that can sit in an inventory slot. Every block is also an item with the same id;
+// other items start at 256 so they never collide with block ids.
+export interface ItemType {
+  id: number;
+  name: string;
+  icon: string;
+  maxStackSize: number;
+  placesBlock?: number; // Block put down when the item is used on a face
+  tool?: ToolStats;
+  food?: FoodStats;
+}
+
+export interface FoodStats {
+  hunger: number; // Hunger points restored
+  heal?: number; // Health restored on top
+}
+
+// Tiers: 0 wood, 1 stone, 2 iron
+export interface ToolStats {
+  kind: ToolKind;
+  tier: number;
+  speed: number; // Break speed multiplier on blocks that prefer this tool
+  durability: number; // Blocks broken before the tool wears out
+}
+
+const WOODEN_TOOL = { tier: 0, speed: 2, durability: 59 };
+const STONE_TOOL = { tier: 1, speed: 4, durability: 131 };
+const IRON_TOOL = { tier: 2, speed: 6, durability: 250 };
+
+export const ITEMS = {
+  STICK: 256,
+  IRON_INGOT: 257,
+  WOODEN_PICKAXE: 258,
+  STONE_PICKAXE: 259,
+  IRON_PICKAXE: 260,
+  WOODEN_AXE: 261,
+  STONE_AXE: 262,
+  IRON_AXE: 263,
+  WOODEN_SHOVEL: 264,
+  STONE_SHOVEL: 265,
+  IRON_SHOVEL: 266,
+  COAL: 267,
+  DIAMOND: 268,
+  APPLE: 269,
+  GOLDEN_APPLE: 270
+} as const;
+
+// Drops in block definitions name items like "core:iron_ingot"
+const itemKeys = new Map<string, number>(Object.entries(ITEMS).map(([name, id]) => [`core:${name.toLowerCase()}`, id]));
+
+blockRegistry.load(blockDefinitions, key => itemKeys.get(key));
+
+// Every block type, indexed by id
+export const BLOCK_TYPES: BlockType[] = blockRegistry.getAll();
+
+// Runtime ids of the blocks the engine refers to by name. Ids follow the order of the definitions,
+// so code looks them up here instead of hard-coding numbers.
+export const BLOCKS = {
+  AIR: blockRegistry.requireId('core:air'),
+  GRASS: blockRegistry.requireId('core:grass'),
+  DIRT: blockRegistry.requireId('core:dirt'),
+  STONE: blockRegistry.requireId('core:stone'),
+  LOG: blockRegistry.requireId('core:log'),
+  LEAVES: blockRegistry.requireId('core:leaves'),
+  SAND: blockRegistry.requireId('core:sand'),
+  SNOW: blockRegistry.requireId('core:snow'),
+  BEDROCK: blockRegistry.requireId('core:bedrock'),
+  COAL_ORE: blockRegistry.requireId('core:coal_ore'),
+  IRON_ORE: blockRegistry.requireId('core:iron_ore'),
+  GOLD_ORE: blockRegistry.requireId('core:gold_ore'),
+  DIAMOND_ORE: blockRegistry.requireId('core:diamond_ore'),
+  PLANKS: blockRegistry.requireId('core:planks'),
+  CRAFTING_TABLE: blockRegistry.requireId('core:crafting_table'),
+  COBBLESTONE: blockRegistry.requireId('core:cobblestone'),
+  SAPLING: blockRegistry.requireId('core:sapling'),
+  WATER: blockRegistry.requireId('core:water'),
+  LAVA: blockRegistry.requireId('core:lava'),
+  OBSIDIAN: blockRegistry.requireId('core:obsidian'),
+  TORCH: blockRegistry.requireId('core:torch'),
+  GLOWSTONE: blockRegistry.requireId('core:glowstone')
+} as const;
+
+export const ITEM_TYPES: ItemType[] = [
+  // Flowing fluid only exists in the world, never in an inventory
+  ...BLOCK_TYPES.filter(block => block.id > 0 && !block.fluidLevel).map(block => ({
+    id: block.id,
+    name: block.name,
+    icon: block.textureSide,
+    maxStackSize: 64,
+    placesBlock: block.id
+  })),
+  { id: ITEMS.STICK, name: 'Stick', icon: '/textures/items/stick.svg', maxStackSize: 64 },
+  { id: ITEMS.IRON_INGOT, name: 'Iron Ingot', icon: '/textures/items/iron_ingot.svg', maxStackSize: 64 },
+  { id: ITEMS.COAL, name: 'Coal', icon: '/textures/items/coal.svg', maxStackSize: 64 },
+  { id: ITEMS.DIAMOND, name: 'Diamond', icon: '/textures/items/diamond.svg', maxStackSize: 64 },
+  { id: ITEMS.APPLE, name: 'Apple', icon: '/textures/items/apple.svg', maxStackSize: 64, food: { hunger: 4 } },
+  {
+    id: ITEMS.GOLDEN_APPLE,
+    name: 'Golden Apple',
+    icon: '/textures/items/golden_apple.svg',
+    maxStackSize: 64,
+    food: { hunger: 4, heal: 4 }
+  },
+  {
+    id: ITEMS.WOODEN_PICKAXE,
+    name: 'Wooden Pickaxe',
+    icon: '/textures/items/wooden_pickaxe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'pickaxe', ...WOODEN_TOOL }
+  },
+  {
+    id: ITEMS.STONE_PICKAXE,
+    name: 'Stone Pickaxe',
+    icon: '/textures/items/stone_pickaxe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'pickaxe', ...STONE_TOOL }
+  },
   {
-    id: 0,
-    name: 'Air',
-    textureTop: '/textures/stone.svg',
-    textureSide: '/textures/stone.svg',
-    textureBottom: '/textures/stone.svg',
-    hardness: 0,
-    transparent: true,
+    id: ITEMS.IRON_PICKAXE,
+    name: 'Iron Pickaxe',
+    icon: '/textures/items/iron_pickaxe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'pickaxe', ...IRON_TOOL }
   },
   {
-    id: 1,
-    name: 'Grass',
-    textureTop: '/textures/grass_top.svg',
-    textureSide: '/textures/grass_side.svg',
-    textureBottom: '/textures/dirt.svg',
-    hardness: 1,
-    transparent: false,
+    id: ITEMS.WOODEN_AXE,
+    name: 'Wooden Axe',
+    icon: '/textures/items/wooden_axe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'axe', ...WOODEN_TOOL }
   },
   {
-    id: 2,
-    name: 'Dirt',
-    textureTop: '/textures/dirt.svg',
-    textureSide: '/textures/dirt.svg',
-    textureBottom: '/textures/dirt.svg',
-    hardness: 1,
-    transparent: false,
+    id: ITEMS.STONE_AXE,
+    name: 'Stone Axe',
+    icon: '/textures/items/stone_axe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'axe', ...STONE_TOOL }
   },
   {
-    id: 3,
-    name: 'Stone',
-    textureTop: '/textures/stone.svg',
-    textureSide: '/textures/stone.svg',
-    textureBottom: '/textures/stone.svg',
-    hardness: 3,
-    transparent: false,
+    id: ITEMS.IRON_AXE,
+    name: 'Iron Axe',
+    icon: '/textures/items/iron_axe.svg',
+    maxStackSize: 1,
+    tool: { kind: 'axe', ...IRON_TOOL }
   },
   {
-    id: 4,
-    name: 'Wood',
-    textureTop: '/textures/log_top.svg',
-    textureSide: '/textures/log_side.svg',
-    textureBottom: '/textures/log_top.svg',
-    hardness: 2,
-    transparent: false,
+    id: ITEMS.WOODEN_SHOVEL,
+    name: 'Wooden Shovel',
+    icon: '/textures/items/wooden_shovel.svg',
+    maxStackSize: 1,
+    tool: { kind: 'shovel', ...WOODEN_TOOL }
   },
   {
-    id: 5,
-    name: 'Leaves',
-    textureTop: '/textures/leaves.svg',
-    textureSide: '/textures/leaves.svg',
-    textureBottom: '/textures/leaves.svg',
-    hardness: 0.5,
-    transparent: true,
+    id: ITEMS.STONE_SHOVEL,
+    name: 'Stone Shovel',
+    icon: '/textures/items/stone_shovel.svg',
+    maxStackSize: 1,
+    tool: { kind: 'shovel', ...STONE_TOOL }
   },
+  {
+    id: ITEMS.IRON_SHOVEL,
+    name: 'Iron Shovel',
+    icon: '/textures/items/iron_shovel.svg',
+    maxStackSize: 1,
+    tool: { kind: 'shovel', ...IRON_TOOL }
+  }
 ];
 
+const itemLookup = new Map(ITEM_TYPES.map(item => [item.id, item]));
+
+export function getItemType(itemId: number): ItemType | undefined {
+  return itemLookup.get(itemId);
+}
+
 export const CHUNK_SIZE = 16;
 export const RENDER_DISTANCE = 3;
 export const MAX_RENDER_DISTANCE = 6;
 export const WORLD_SIZE = 1024; // 1024x1024 blocks
 export const WORLD_HEIGHT = 256; // 256 blocks high
+
+// Dense chunk storage: one palette index per cell, laid out Y-major so that
+// horizontal slices are contiguous (index = (y * CHUNK_SIZE + z) * CHUNK_SIZE + x).
+// Palette entry 0 is always air.
+export class ChunkData {
+  static readonly VOLUME = CHUNK_SIZE * WORLD_HEIGHT * CHUNK_SIZE;
+
+  readonly cells: Uint16Array;
+  readonly palette: number[];
+  private paletteLookup = new Map<number, number>();
+  private solidCount = 0;
+
+  constructor(cells?: Uint16Array, palette?: number[]) {
+    this.cells = cells ?? new Uint16Array(ChunkData.VOLUME);
+    this.palette = palette ? [...palette] : [0];
+    this.palette.forEach((type, index) => this.paletteLookup.set(type, index));
+
+    for (let i = 0; i < this.cells.length; i++) {
+      if (this.palette[this.cells[i]] !== 0) this.solidCount++;
+    }
+  }
+
+  static index(x: number, y: number, z: number): number {
+    return (y * CHUNK_SIZE + z) * CHUNK_SIZE + x;
+  }
+
+  static inBounds(x: number, y: number, z: number): boolean {
+    return x >= 0 && x < CHUNK_SIZE &&
+      y >= 0 && y < WORLD_HEIGHT &&
+      z >= 0 && z < CHUNK_SIZE;
+  }
+
+  // Block type at local coordinates; anything outside the chunk reads as air
+  get(x: number, y: number, z: number): number {
+    if (!ChunkData.inBounds(x, y, z)) return 0;
+    return this.palette[this.cells[ChunkData.index(x, y, z)]];
+  }
+
+  // Returns true when the stored block type actually changed
+  set(x: number, y: number, z: number, type: number): boolean {
+    if (!ChunkData.inBounds(x, y, z)) return false;
+
+    const index = ChunkData.index(x, y, z);
+    const previous = this.palette[this.cells[index]];
+    if (previous === type) return false;
+
+    let paletteIndex = this.paletteLookup.get(type);
+    if (paletteIndex === undefined) {
+      paletteIndex = this.palette.length;
+      this.palette.push(type);
+      this.paletteLookup.set(type, paletteIndex);
+    }
+
+    this.cells[index] = paletteIndex;
+    if (previous === 0) this.solidCount++;
+    if (type === 0) this.solidCount--;
+    return true;
+  }
+
+  get blockCount(): number {
+    return this.solidCount;
+  }
+
+  // Visit every non-air cell in storage order
+  forEachBlock(callback: (type: number, x: number, y: number, z: number) => void): void {
+    if (this.solidCount === 0) return;
+
+    for (let i = 0; i < this.cells.length; i++) {
+      const type = this.palette[this.cells[i]];
+      if (type === 0) continue;
+
+      const x = i % CHUNK_SIZE;
+      const z = Math.floor(i / CHUNK_SIZE) % CHUNK_SIZE;
+      const y = Math.floor(i / (CHUNK_SIZE * CHUNK_SIZE));
+      callback(type, x, y, z);
+    }
+  }
+
+  // Legacy block list in world coordinates for components still reading Chunk.blocks
+  toBlocks(chunkX: number, chunkZ: number): Block[] {
+    const blocks: Block[] = [];
+    const offsetX = chunkX * CHUNK_SIZE;
+    const offsetZ = chunkZ * CHUNK_SIZE;
+
+    this.forEachBlock((type, x, y, z) => {
+      blocks.push({ type, x: offsetX + x, y, z: offsetZ + z });
+    });
+
+    return blocks;
+  }
+
+  // Migration shim: accepts blocks in either local or world coordinates
+  static fromBlocks(blocks: Block[]): ChunkData {
+    const data = new ChunkData();
+
+    blocks.forEach(block => {
+      const x = ((block.x % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+      const z = ((block.z % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+      data.set(x, block.y, z, block.type);
+    });
+
+    return data;
+  }
+}
+
+// Storage for a chunk, converting legacy block lists on first access
+export function getChunkData(chunk: Chunk): ChunkData {
+  if (!chunk.data) {
+    chunk.data = ChunkData.fromBlocks(chunk.blocks);
+  }
+  return chunk.data;
+}
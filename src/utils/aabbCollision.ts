@@ -0,0 +1,165 @@
+// Swept axis-aligned box collision against the voxel grid. A box moves one axis at a time -
+// X, then Y, then Z - and stops exactly at the face of the first solid block in its path.
+// Blocks the box already overlaps are ignored so anything stuck inside terrain can move out.
+
+export interface AABB {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export type SolidTest = (x: number, y: number, z: number) => boolean;
+
+export interface MoveResult {
+  offset: [number, number, number]; // How far the box actually moved
+  collided: [boolean, boolean, boolean]; // Per axis: was the motion cut short?
+}
+
+// Faces closer than this count as touching, not overlapping
+const EPSILON = 1e-7;
+const SNEAK_STEP = 0.05; // Motion given up per try while looking for support at an edge
+
+// Box of a standing entity: `feet` is the centre of its bottom face
+export function createEntityBox(feet: [number, number, number], width: number, height: number): AABB {
+  const half = width / 2;
+  return {
+    min: [feet[0] - half, feet[1], feet[2] - half],
+    max: [feet[0] + half, feet[1] + height, feet[2] + half]
+  };
+}
+
+export function offsetBox(box: AABB, dx: number, dy: number, dz: number): AABB {
+  return {
+    min: [box.min[0] + dx, box.min[1] + dy, box.min[2] + dz],
+    max: [box.max[0] + dx, box.max[1] + dy, box.max[2] + dz]
+  };
+}
+
+// Inclusive range of block coordinates a box covers on one axis, ignoring faces it only touches
+const blockRange = (box: AABB, axis: number): [number, number] => [
+  Math.floor(box.min[axis] + EPSILON),
+  Math.floor(box.max[axis] - EPSILON)
+];
+
+export function boxIntersectsBlock(box: AABB, x: number, y: number, z: number): boolean {
+  const block = [x, y, z];
+  return [0, 1, 2].every(axis =>
+    box.max[axis] - EPSILON > block[axis] && box.min[axis] + EPSILON < block[axis] + 1
+  );
+}
+
+export function intersectsSolid(box: AABB, isSolid: SolidTest): boolean {
+  const [minX, maxX] = blockRange(box, 0);
+  const [minY, maxY] = blockRange(box, 1);
+  const [minZ, maxZ] = blockRange(box, 2);
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      for (let z = minZ; z <= maxZ; z++) {
+        if (isSolid(x, y, z)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Is any block solid in the layer `layer` along `axis`, within the box's extent on the other axes?
+const layerIsSolid = (box: AABB, axis: number, layer: number, isSolid: SolidTest): boolean => {
+  const [a, b] = [0, 1, 2].filter(other => other !== axis);
+  const [minA, maxA] = blockRange(box, a);
+  const [minB, maxB] = blockRange(box, b);
+  const cell: [number, number, number] = [0, 0, 0];
+  cell[axis] = layer;
+
+  for (let i = minA; i <= maxA; i++) {
+    for (let j = minB; j <= maxB; j++) {
+      cell[a] = i;
+      cell[b] = j;
+      if (isSolid(...cell)) return true;
+    }
+  }
+  return false;
+};
+
+// How far the box can move along `axis`, up to `distance`, before it touches a solid block
+export function sweepAxis(box: AABB, axis: number, distance: number, isSolid: SolidTest): number {
+  if (distance > 0) {
+    const face = box.max[axis];
+    for (let layer = Math.ceil(face - EPSILON); layer < face + distance; layer++) {
+      if (layerIsSolid(box, axis, layer, isSolid)) return Math.max(0, layer - face);
+    }
+  } else if (distance < 0) {
+    const face = box.min[axis];
+    for (let layer = Math.floor(face + EPSILON) - 1; layer + 1 > face + distance; layer--) {
+      if (layerIsSolid(box, axis, layer, isSolid)) return Math.min(0, layer + 1 - face);
+    }
+  }
+  return distance;
+}
+
+// Move along X, Y and Z in turn, each axis starting from where the previous one stopped
+export function moveBox(box: AABB, motion: [number, number, number], isSolid: SolidTest): MoveResult {
+  let current = box;
+  const offset: [number, number, number] = [0, 0, 0];
+  const collided: [boolean, boolean, boolean] = [false, false, false];
+
+  for (let axis = 0; axis < 3; axis++) {
+    const moved = sweepAxis(current, axis, motion[axis], isSolid);
+    offset[axis] = moved;
+    collided[axis] = moved !== motion[axis];
+    const delta: [number, number, number] = [0, 0, 0];
+    delta[axis] = moved;
+    current = offsetBox(current, ...delta);
+  }
+
+  return { offset, collided };
+}
+
+// Like moveBox, but a grounded box blocked sideways also tries climbing up to `stepHeight`
+// onto the obstacle and keeps whichever attempt covers more horizontal distance
+export function moveBoxWithStep(
+  box: AABB,
+  motion: [number, number, number],
+  stepHeight: number,
+  onGround: boolean,
+  isSolid: SolidTest
+): MoveResult {
+  const direct = moveBox(box, motion, isSolid);
+  if (!onGround || stepHeight <= 0 || !(direct.collided[0] || direct.collided[2])) return direct;
+
+  const up = sweepAxis(box, 1, stepHeight, isSolid);
+  const lifted = offsetBox(box, 0, up, 0);
+  const across = moveBox(lifted, [motion[0], 0, motion[2]], isSolid);
+  const moved = offsetBox(lifted, across.offset[0], 0, across.offset[2]);
+  const down = sweepAxis(moved, 1, -up, isSolid);
+
+  const horizontal = (result: MoveResult) => result.offset[0] ** 2 + result.offset[2] ** 2;
+  const stepped: MoveResult = {
+    offset: [across.offset[0], up + down, across.offset[2]],
+    collided: [across.collided[0], true, across.collided[2]] // Settled back onto the step
+  };
+  return horizontal(stepped) > horizontal(direct) ? stepped : direct;
+}
+
+// Sneaking: cut horizontal motion back until the box would still have ground within
+// `stepHeight` below it, so it cannot walk off an edge
+export function clipToSupport(
+  box: AABB,
+  dx: number,
+  dz: number,
+  stepHeight: number,
+  isSolid: SolidTest
+): [number, number] {
+  const supported = (x: number, z: number) => intersectsSolid(offsetBox(box, x, -stepHeight, z), isSolid);
+  const approachZero = (value: number) =>
+    Math.abs(value) <= SNEAK_STEP ? 0 : value - Math.sign(value) * SNEAK_STEP;
+
+  // Already hanging over nothing, e.g. mid-jump: nothing to hold on to
+  if (!supported(0, 0)) return [dx, dz];
+
+  while (dx !== 0 && !supported(dx, 0)) dx = approachZero(dx);
+  while (dz !== 0 && !supported(0, dz)) dz = approachZero(dz);
+  while (dx !== 0 && dz !== 0 && !supported(dx, dz)) {
+    dx = approachZero(dx);
+    dz = approachZero(dz);
+  }
+  return [dx, dz];
+}
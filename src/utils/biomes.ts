@@ -0,0 +1,162 @@
+// Biome stage - climate noise picks a biome per column and blends terrain heights
+// across borders. Generators add the returned offset to their own sea level.
+import type { WorldSeed } from '../types/game';
+import { BLOCKS } from '../types/game';
+import { hashSeed, mixSeed } from './seed';
+import { StableNoise } from './noise';
+
+export type BiomeId = 'ocean' | 'beach' | 'plains' | 'forest' | 'desert' | 'tundra' | 'mountains';
+
+// Structures (by template id) that may grow on a column, with the chance per column
+export interface BiomeFeature {
+  structures: string[];
+  density: number;
+}
+
+export interface BiomeDefinition {
+  id: BiomeId;
+  name: string;
+  surfaceBlock: number;
+  fillerBlock: number;
+  fillerDepth: number; // Filler layers between surface and stone
+  baseHeight: number; // Average surface height relative to sea level
+  heightAmplitude: number; // Maximum deviation from baseHeight
+  features: BiomeFeature[]; // Rolled in order; the first hit claims the column
+}
+
+export const BIOMES: Record<BiomeId, BiomeDefinition> = {
+  ocean: {
+    id: 'ocean', name: 'Ocean',
+    surfaceBlock: BLOCKS.SAND, fillerBlock: BLOCKS.SAND, fillerDepth: 3,
+    baseHeight: -10, heightAmplitude: 4,
+    features: []
+  },
+  beach: {
+    id: 'beach', name: 'Beach',
+    surfaceBlock: BLOCKS.SAND, fillerBlock: BLOCKS.SAND, fillerDepth: 3,
+    baseHeight: 1, heightAmplitude: 1,
+    features: []
+  },
+  plains: {
+    id: 'plains', name: 'Plains',
+    surfaceBlock: BLOCKS.GRASS, fillerBlock: BLOCKS.DIRT, fillerDepth: 3,
+    baseHeight: 4, heightAmplitude: 3,
+    features: [
+      { structures: ['hut'], density: 0.0003 },
+      { structures: ['oak_tree'], density: 0.004 },
+      { structures: ['boulder'], density: 0.001 }
+    ]
+  },
+  forest: {
+    id: 'forest', name: 'Forest',
+    surfaceBlock: BLOCKS.GRASS, fillerBlock: BLOCKS.DIRT, fillerDepth: 3,
+    baseHeight: 6, heightAmplitude: 6,
+    features: [
+      { structures: ['oak_tree', 'tall_oak_tree'], density: 0.04 },
+      { structures: ['boulder'], density: 0.002 }
+    ]
+  },
+  desert: {
+    id: 'desert', name: 'Desert',
+    surfaceBlock: BLOCKS.SAND, fillerBlock: BLOCKS.SAND, fillerDepth: 4,
+    baseHeight: 4, heightAmplitude: 3,
+    features: [{ structures: ['boulder'], density: 0.001 }]
+  },
+  tundra: {
+    id: 'tundra', name: 'Snowy Tundra',
+    surfaceBlock: BLOCKS.SNOW, fillerBlock: BLOCKS.DIRT, fillerDepth: 3,
+    baseHeight: 5, heightAmplitude: 3,
+    features: [{ structures: ['spruce_tree'], density: 0.006 }]
+  },
+  mountains: {
+    id: 'mountains', name: 'Mountains',
+    surfaceBlock: BLOCKS.STONE, fillerBlock: BLOCKS.STONE, fillerDepth: 1,
+    baseHeight: 20, heightAmplitude: 22,
+    features: [
+      { structures: ['spruce_tree'], density: 0.003 },
+      { structures: ['boulder'], density: 0.004 }
+    ]
+  }
+};
+
+export interface BiomeClimate {
+  temperature: number;
+  humidity: number;
+  continentalness: number; // Low values are sea, high values are highlands
+}
+
+export interface BiomeColumn {
+  biome: BiomeDefinition;
+  heightOffset: number; // Blended surface height relative to sea level
+}
+
+// Blend radius and sample spacing (in blocks) used to smooth heights at biome borders
+const BLEND_RADIUS = 2;
+const BLEND_SPACING = 4;
+
+export class BiomeMap {
+  private temperatureNoise: StableNoise;
+  private humidityNoise: StableNoise;
+  private continentNoise: StableNoise;
+  private heightNoise: StableNoise;
+
+  constructor(seed: WorldSeed) {
+    // Channels 100+ keep the biome stage independent of each generator's own noise
+    const baseSeed = hashSeed(seed);
+    this.temperatureNoise = new StableNoise(mixSeed(baseSeed, 101));
+    this.humidityNoise = new StableNoise(mixSeed(baseSeed, 102));
+    this.continentNoise = new StableNoise(mixSeed(baseSeed, 103));
+    this.heightNoise = new StableNoise(mixSeed(baseSeed, 104));
+  }
+
+  getClimate(x: number, z: number): BiomeClimate {
+    return {
+      temperature: this.temperatureNoise.fractalNoise(x * 0.002, z * 0.002, 2),
+      humidity: this.humidityNoise.fractalNoise(x * 0.002, z * 0.002, 2),
+      continentalness: this.continentNoise.fractalNoise(x * 0.0015, z * 0.0015, 3)
+    };
+  }
+
+  getBiome(x: number, z: number): BiomeDefinition {
+    const { temperature, humidity, continentalness } = this.getClimate(x, z);
+
+    if (continentalness < -0.25) return BIOMES.ocean;
+    if (continentalness < -0.18) return BIOMES.beach;
+    if (continentalness > 0.3) return BIOMES.mountains;
+    if (temperature < -0.25) return BIOMES.tundra;
+    if (temperature > 0.25 && humidity < 0) return BIOMES.desert;
+    if (humidity > 0.1) return BIOMES.forest;
+    return BIOMES.plains;
+  }
+
+  // Biome at the column plus its surface height, with base height and amplitude
+  // averaged over nearby biomes so borders slope instead of stepping
+  getColumn(x: number, z: number): BiomeColumn {
+    let baseHeight = 0;
+    let amplitude = 0;
+    let totalWeight = 0;
+
+    for (let dx = -BLEND_RADIUS; dx <= BLEND_RADIUS; dx++) {
+      for (let dz = -BLEND_RADIUS; dz <= BLEND_RADIUS; dz++) {
+        const neighbour = this.getBiome(x + dx * BLEND_SPACING, z + dz * BLEND_SPACING);
+        const weight = 1 / (1 + dx * dx + dz * dz);
+        baseHeight += neighbour.baseHeight * weight;
+        amplitude += neighbour.heightAmplitude * weight;
+        totalWeight += weight;
+      }
+    }
+
+    const detail = this.heightNoise.fractalNoise(x * 0.01, z * 0.01, 4);
+    return {
+      biome: this.getBiome(x, z),
+      heightOffset: baseHeight / totalWeight + detail * (amplitude / totalWeight)
+    };
+  }
+
+  // Terrain block `depth` layers below the surface (0 = surface); stone below the filler
+  getColumnBlock(biome: BiomeDefinition, depth: number): number {
+    if (depth === 0) return biome.surfaceBlock;
+    if (depth <= biome.fillerDepth) return biome.fillerBlock;
+    return BLOCKS.STONE;
+  }
+}
@@ -0,0 +1,108 @@
+// Rasterises the block texture atlas (see textureAtlas) into a canvas at startup, plus the
+// shared material and box geometry that per-block renderers draw with
+import * as THREE from 'three';
+import type { AtlasLayout, AtlasTile } from './textureAtlas';
+import { MISSING_TEXTURE, getBlockAtlas, getBlockFaceRect } from './textureAtlas';
+
+const MISSING_COLORS = ['#FF00DC', '#000000'];
+
+let atlasTexture: THREE.CanvasTexture | null = null;
+let atlasMaterial: THREE.Material | null = null;
+const boxGeometryCache = new Map<number, THREE.BufferGeometry>();
+
+// Magenta and black checks, hard to mistake for a real texture
+const drawMissing = (context: CanvasRenderingContext2D, layout: AtlasLayout, tile: AtlasTile): void => {
+  const half = layout.tileSize / 2;
+  for (let i = 0; i < 4; i++) {
+    context.fillStyle = MISSING_COLORS[(i + (i >> 1)) % 2];
+    context.fillRect(tile.x + (i % 2) * half, tile.y + (i >> 1) * half, half, half);
+  }
+};
+
+// Repeat the tile's outermost pixels into its padding
+const extrudeEdges = (context: CanvasRenderingContext2D, layout: AtlasLayout, tile: AtlasTile): void => {
+  const { tileSize, padding } = layout;
+  const { canvas } = context;
+  const { x, y } = tile;
+  context.drawImage(canvas, x, y, 1, tileSize, x - padding, y, padding, tileSize);
+  context.drawImage(canvas, x + tileSize - 1, y, 1, tileSize, x + tileSize, y, padding, tileSize);
+  // Rows go last and span the side padding too, which fills the corners
+  const left = x - padding;
+  const width = tileSize + padding * 2;
+  context.drawImage(canvas, left, y, width, 1, left, y - padding, width, padding);
+  context.drawImage(canvas, left, y + tileSize - 1, width, 1, left, y + tileSize, width, padding);
+};
+
+// The atlas texture, created on first use. Tiles stay blank until their image has loaded.
+export function getBlockAtlasTexture(): THREE.Texture {
+  if (atlasTexture) return atlasTexture;
+
+  const layout = getBlockAtlas();
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.size;
+  canvas.height = layout.size;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.imageSmoothingEnabled = false;
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.generateMipmaps = false; // Keep the pixel art crisp
+  texture.colorSpace = THREE.SRGBColorSpace;
+  atlasTexture = texture;
+
+  const finishTile = (tile: AtlasTile) => {
+    extrudeEdges(context, layout, tile);
+    texture.needsUpdate = true;
+  };
+
+  layout.tiles.forEach(tile => {
+    if (tile.texture === MISSING_TEXTURE) {
+      drawMissing(context, layout, tile);
+      finishTile(tile);
+      return;
+    }
+    const image = new Image();
+    image.onload = () => {
+      context.drawImage(image, tile.x, tile.y, layout.tileSize, layout.tileSize);
+      finishTile(tile);
+    };
+    image.onerror = () => {
+      console.error(`❌ BlockAtlas: Failed to load texture ${tile.texture}`);
+      drawMissing(context, layout, tile);
+      finishTile(tile);
+    };
+    image.src = tile.texture;
+  });
+
+  return texture;
+}
+
+// Shared by every per-block renderer and never disposed; cut-out textures such as saplings
+// are see-through where their pixels are
+export function getBlockAtlasMaterial(): THREE.Material {
+  if (!atlasMaterial) {
+    atlasMaterial = new THREE.MeshLambertMaterial({ map: getBlockAtlasTexture(), alphaTest: 0.5 });
+  }
+  return atlasMaterial;
+}
+
+// Unit cube whose faces show the block type's textures, cached per type
+export function getBlockBoxGeometry(blockType: number): THREE.BufferGeometry {
+  let geometry = boxGeometryCache.get(blockType);
+  if (!geometry) {
+    geometry = new THREE.BoxGeometry(1, 1, 1);
+    const uvs = geometry.getAttribute('uv');
+    // BoxGeometry lays out four vertices per face in the order +x, -x, +y, -y, +z, -z
+    const faces = ['side', 'side', 'top', 'bottom', 'side', 'side'] as const;
+    for (let i = 0; i < uvs.count; i++) {
+      const rect = getBlockFaceRect(blockType, faces[Math.floor(i / 4)]);
+      uvs.setXY(i, rect.u + uvs.getX(i) * rect.width, rect.v + uvs.getY(i) * rect.height);
+    }
+    boxGeometryCache.set(blockType, geometry);
+  }
+  return geometry;
+}
@@ -0,0 +1,50 @@
+// Harvest rules - how long a block takes to break, what it drops and how tools wear
+import type { ItemStack, ToolStats } from '../types/game';
+import { BLOCK_TYPES, getItemType } from '../types/game';
+
+const SECONDS_PER_HARDNESS = 1.5;
+// Blocks that need a tool take this much longer when broken without one
+const NO_HARVEST_PENALTY = 10 / 3;
+
+const getTool = (heldItemId: number): ToolStats | undefined => getItemType(heldItemId)?.tool;
+
+// Will breaking the block with the held item drop anything?
+export function canHarvest(blockType: number, heldItemId = 0): boolean {
+  const block = BLOCK_TYPES[blockType];
+  if (block?.requiredTier === undefined) return true;
+
+  const tool = getTool(heldItemId);
+  return !!tool && tool.kind === block.preferredTool && tool.tier >= block.requiredTier;
+}
+
+// Seconds of holding the mouse to break a block in survival; Infinity for unbreakable blocks
+export function getBreakTime(blockType: number, heldItemId = 0): number {
+  const block = BLOCK_TYPES[blockType];
+  const hardness = block?.hardness ?? 0;
+  if (hardness < 0) return Infinity;
+
+  const tool = getTool(heldItemId);
+  const speed = tool && tool.kind === block?.preferredTool ? tool.speed : 1;
+  const penalty = canHarvest(blockType, heldItemId) ? 1 : NO_HARVEST_PENALTY;
+  return hardness * SECONDS_PER_HARDNESS * penalty / speed;
+}
+
+// Roll the block's drop table; blocks without one drop themselves
+export function getDrops(blockType: number, heldItemId = 0, random: () => number = Math.random): ItemStack[] {
+  const block = BLOCK_TYPES[blockType];
+  if (!block || !canHarvest(blockType, heldItemId)) return [];
+
+  return (block.drops ?? [{ itemId: blockType, count: 1 }])
+    .filter(drop => drop.chance === undefined || random() < drop.chance)
+    .map(({ itemId, count }) => ({ itemId, count }));
+}
+
+// One use of a tool; returns null once it wears out. Other items are returned unchanged.
+export function wearTool(stack: ItemStack): ItemStack | null {
+  const tool = getTool(stack.itemId);
+  if (!tool) return stack;
+
+  const damage = (stack.metadata?.damage ?? 0) + 1;
+  if (damage >= tool.durability) return null;
+  return { ...stack, metadata: { ...stack.metadata, damage } };
+}
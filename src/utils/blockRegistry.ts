@@ -0,0 +1,231 @@
+// Block registry - block types defined as JSON data (see src/data/blocks.json). Definitions name
+// blocks with namespaced string ids such as "core:stone"; numeric ids, which chunks store, are
+// handed out in load order, so saves record the mapping between the two (see worldStore).
+import type { BlockDrop, BlockSoundGroup, BlockType, CollisionShape, FluidKind, ToolKind } from '../types/game';
+
+// A block as written in JSON; optional fields fall back to an opaque, solid, unlit cube
+export interface BlockDefinition {
+  id: string;
+  name: string;
+  textures?: { all: string } | { top: string; side: string; bottom: string };
+  hardness: number; // -1 for unbreakable
+  transparent?: boolean;
+  collision?: CollisionShape;
+  lightEmission?: number;
+  preferredTool?: ToolKind;
+  requiredTier?: number;
+  drops?: Array<{ item: string; count: number; chance?: number }>; // Block or item string ids
+  sounds?: BlockSoundGroup;
+  fluid?: FluidKind;
+  fluidLevel?: number;
+}
+
+// String id → numeric id, as stored alongside saved chunks
+export type BlockIdMapping = Record<string, number>;
+
+export const AIR_KEY = 'core:air';
+// Block ids share the item id space below the first non-block item
+export const MAX_BLOCK_TYPES = 256;
+const KEY_PATTERN = /^[a-z0-9_]+:[a-z0-9_/]+$/;
+const COLLISION_SHAPES: CollisionShape[] = ['cube', 'none'];
+const SOUND_GROUPS: BlockSoundGroup[] = ['stone', 'wood', 'grass', 'gravel', 'sand', 'snow', 'glass'];
+const TOOL_KINDS: ToolKind[] = ['pickaxe', 'axe', 'shovel'];
+const FLUID_KINDS: FluidKind[] = ['water', 'lava'];
+const MAX_FLUID_LEVEL = 7;
+const MAX_LIGHT_EMISSION = 15;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown, min: number, max: number): boolean =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isOneOf = <T extends string>(value: unknown, options: T[]): value is T =>
+  typeof value === 'string' && (options as string[]).includes(value);
+
+// Everything wrong with one definition, so a bad file reports all its problems at once
+function validateDefinition(value: unknown, index: number): string[] {
+  if (!isRecord(value)) return [`Block #${index}: must be an object`];
+
+  const label = typeof value.id === 'string' ? `Block "${value.id}"` : `Block #${index}`;
+  const problems: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    if (!ok) problems.push(`${label}: ${message}`);
+  };
+
+  check(typeof value.id === 'string' && KEY_PATTERN.test(value.id), 'id must look like "namespace:name"');
+  check(typeof value.name === 'string' && value.name.trim() !== '', 'name must be a non-empty string');
+  check(
+    typeof value.hardness === 'number' && (value.hardness >= 0 || value.hardness === -1),
+    'hardness must be 0 or more, or -1 for unbreakable'
+  );
+  check(value.transparent === undefined || typeof value.transparent === 'boolean', 'transparent must be true or false');
+  check(value.collision === undefined || isOneOf(value.collision, COLLISION_SHAPES),
+    `collision must be one of ${COLLISION_SHAPES.join(', ')}`);
+  check(value.lightEmission === undefined || isInteger(value.lightEmission, 0, MAX_LIGHT_EMISSION),
+    `lightEmission must be a whole number from 0 to ${MAX_LIGHT_EMISSION}`);
+  check(value.preferredTool === undefined || isOneOf(value.preferredTool, TOOL_KINDS),
+    `preferredTool must be one of ${TOOL_KINDS.join(', ')}`);
+  check(value.requiredTier === undefined || (isInteger(value.requiredTier, 0, Infinity) && value.preferredTool !== undefined),
+    'requiredTier must be a whole number and needs a preferredTool');
+  check(value.sounds === undefined || isOneOf(value.sounds, SOUND_GROUPS),
+    `sounds must be one of ${SOUND_GROUPS.join(', ')}`);
+  check(value.fluid === undefined || isOneOf(value.fluid, FLUID_KINDS), `fluid must be one of ${FLUID_KINDS.join(', ')}`);
+  check((value.fluid === undefined) === (value.fluidLevel === undefined), 'fluid and fluidLevel go together');
+  check(value.fluidLevel === undefined || isInteger(value.fluidLevel, 0, MAX_FLUID_LEVEL),
+    `fluidLevel must be a whole number from 0 to ${MAX_FLUID_LEVEL}`);
+
+  const textures = value.textures;
+  if (textures === undefined) {
+    check(value.id === AIR_KEY, 'textures are required');
+  } else {
+    const faces = isRecord(textures) && 'all' in textures ? [textures.all] : isRecord(textures)
+      ? [textures.top, textures.side, textures.bottom]
+      : [];
+    check(faces.length > 0 && faces.every(face => typeof face === 'string' && face !== ''),
+      'textures must be { all } or { top, side, bottom } paths');
+  }
+
+  if (value.drops !== undefined) {
+    check(Array.isArray(value.drops), 'drops must be a list');
+    (Array.isArray(value.drops) ? value.drops : []).forEach((drop: unknown, dropIndex) => {
+      check(
+        isRecord(drop) && typeof drop.item === 'string' && isInteger(drop.count, 1, Infinity) &&
+          (drop.chance === undefined || (typeof drop.chance === 'number' && drop.chance > 0 && drop.chance <= 1)),
+        `drop #${dropIndex} needs an item id, a whole count of 1 or more and an optional chance in (0, 1]`
+      );
+    });
+  }
+
+  return problems;
+}
+
+export class BlockRegistry {
+  private blocks: BlockType[] = [];
+  private ids = new Map<string, number>();
+
+  // Register every block in a parsed JSON file. `resolveItem` names the non-block items drops may
+  // refer to. Throws, registering nothing, if any definition is invalid.
+  load(source: unknown, resolveItem: (key: string) => number | undefined = () => undefined): void {
+    const definitions = isRecord(source) ? source.blocks : undefined;
+    if (!Array.isArray(definitions)) {
+      throw new Error('Block definitions must be an object with a "blocks" list');
+    }
+
+    const fail = (problems: string[]) => {
+      if (problems.length > 0) throw new Error(`Invalid block definitions:\n${problems.join('\n')}`);
+    };
+    fail(definitions.flatMap(validateDefinition));
+
+    // Each definition is well formed; now check them against each other and the registry
+    const problems: string[] = [];
+    const keys = new Set(this.ids.keys());
+    definitions.forEach((definition: BlockDefinition) => {
+      if (keys.has(definition.id)) problems.push(`Block "${definition.id}": id is already registered`);
+      keys.add(definition.id);
+    });
+    if (this.blocks.length === 0 && definitions[0]?.id !== AIR_KEY) {
+      problems.push(`The first block must be "${AIR_KEY}"; chunks store air as id 0`);
+    }
+    if (this.blocks.length + definitions.length > MAX_BLOCK_TYPES) {
+      problems.push(`At most ${MAX_BLOCK_TYPES} block types fit beside the item ids`);
+    }
+
+    // Drops may name blocks defined later in the same file
+    const firstId = this.blocks.length;
+    const pendingIds = new Map(definitions.map((definition: BlockDefinition, index) => [definition.id, firstId + index]));
+    const resolveDrop = (key: string) => this.ids.get(key) ?? pendingIds.get(key) ?? resolveItem(key);
+    definitions.forEach((definition: BlockDefinition) => {
+      definition.drops?.forEach(drop => {
+        if (resolveDrop(drop.item) === undefined) {
+          problems.push(`Block "${definition.id}": drops unknown item "${drop.item}"`);
+        }
+      });
+    });
+    fail(problems);
+
+    definitions.forEach((definition: BlockDefinition) => {
+      const id = this.blocks.length;
+      this.ids.set(definition.id, id);
+      this.blocks.push(this.createBlockType(definition, id, resolveDrop));
+    });
+    console.log(`🧱 BlockRegistry: Loaded ${definitions.length} block types`);
+  }
+
+  // Every block type, indexed by numeric id
+  getAll(): BlockType[] {
+    return this.blocks;
+  }
+
+  get(id: number): BlockType | undefined {
+    return this.blocks[id];
+  }
+
+  getId(key: string): number | undefined {
+    return this.ids.get(key);
+  }
+
+  // For ids the engine cannot run without; a missing one is a broken data file
+  requireId(key: string): number {
+    const id = this.ids.get(key);
+    if (id === undefined) {
+      throw new Error(`Block "${key}" is not registered`);
+    }
+    return id;
+  }
+
+  getIdMapping(): BlockIdMapping {
+    return Object.fromEntries(this.ids);
+  }
+
+  // Translate ids saved under `saved` to this registry's ids; blocks that no longer exist
+  // become air and are reported through `onMissing`
+  createRemap(saved: BlockIdMapping, onMissing?: (key: string) => void): (savedId: number) => number {
+    const remap = new Map<number, number>();
+    Object.entries(saved).forEach(([key, savedId]) => {
+      const id = this.ids.get(key);
+      if (id === undefined) onMissing?.(key);
+      remap.set(savedId, id ?? 0);
+    });
+    return savedId => remap.get(savedId) ?? 0;
+  }
+
+  private createBlockType(
+    definition: BlockDefinition,
+    id: number,
+    resolveDrop: (key: string) => number | undefined
+  ): BlockType {
+    const textures = definition.textures;
+    const [textureTop, textureSide, textureBottom] = !textures
+      ? ['', '', '']
+      : 'all' in textures
+        ? [textures.all, textures.all, textures.all]
+        : [textures.top, textures.side, textures.bottom];
+    const drops: BlockDrop[] | undefined = definition.drops?.map(drop => ({
+      itemId: resolveDrop(drop.item)!, // Checked by load()
+      count: drop.count,
+      ...(drop.chance !== undefined && { chance: drop.chance })
+    }));
+
+    return {
+      id,
+      key: definition.id,
+      name: definition.name,
+      textureTop,
+      textureSide,
+      textureBottom,
+      hardness: definition.hardness,
+      transparent: definition.transparent ?? false,
+      collision: definition.collision ?? 'cube',
+      preferredTool: definition.preferredTool,
+      requiredTier: definition.requiredTier,
+      drops,
+      sounds: definition.sounds,
+      fluid: definition.fluid,
+      fluidLevel: definition.fluidLevel,
+      lightEmission: definition.lightEmission
+    };
+  }
+}
+
+export const blockRegistry = new BlockRegistry();
@@ -0,0 +1,95 @@
+// Chunk generator shared by the chunk worker and its main-thread fallback.
+// Output depends only on (seed, chunkX, chunkZ), so both sides produce identical chunks.
+import type { Chunk, WorldSeed } from '../types/game';
+import { ChunkData } from '../types/game';
+import { DEFAULT_WORLD_SEED, hashSeed, mixSeed } from './seed';
+import { StableNoise } from './noise';
+import { BiomeMap } from './biomes';
+import type { BiomeColumn, BiomeDefinition } from './biomes';
+import { UndergroundPass, DEFAULT_UNDERGROUND_SETTINGS } from './underground';
+import type { UndergroundSettings } from './underground';
+import { StructurePlacer, planBiomeFeatures } from './structures';
+import { DEFAULT_TERRAIN_SETTINGS, fillSea, getSurfaceHeight, isAboveSea } from './terrain';
+import type { TerrainNoiseSettings } from './terrain';
+
+// Constants for terrain generation
+const CHUNK_SIZE = 16;
+
+export class ChunkGenerator {
+  private heightNoise: StableNoise;
+  private biomes: BiomeMap;
+  private underground: UndergroundPass;
+  private structures: StructurePlacer;
+  readonly seed: WorldSeed;
+  readonly settings: TerrainNoiseSettings;
+  
+  constructor(
+    seed: WorldSeed = DEFAULT_WORLD_SEED,
+    settings: TerrainNoiseSettings = DEFAULT_TERRAIN_SETTINGS,
+    underground: UndergroundSettings = DEFAULT_UNDERGROUND_SETTINGS
+  ) {
+    // Derive one noise channel per feature from the world seed
+    this.seed = seed;
+    this.settings = settings;
+    const baseSeed = hashSeed(seed);
+    this.heightNoise = new StableNoise(mixSeed(baseSeed, 1));
+    this.biomes = new BiomeMap(seed);
+    this.underground = new UndergroundPass(seed, underground);
+    this.structures = new StructurePlacer((chunkX, chunkZ) => planBiomeFeatures(
+      {
+        getBiome: (x, z) => this.biomes.getBiome(x, z),
+        getSurfaceHeight: (x, z) => this.getSurfaceHeight(x, z)
+      },
+      baseSeed,
+      chunkX,
+      chunkZ
+    ).filter(isAboveSea));
+  }
+  
+  // Biome at a world column, for the HUD
+  getBiomeAt(x: number, z: number): BiomeDefinition {
+    return this.biomes.getBiome(Math.floor(x), Math.floor(z));
+  }
+  
+  generateChunk(chunkX: number, chunkZ: number): Chunk {
+    const data = new ChunkData();
+    const heights: number[][] = [];
+    
+    // Generate terrain
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      heights[x] = [];
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = chunkX * CHUNK_SIZE + x;
+        const worldZ = chunkZ * CHUNK_SIZE + z;
+        const column = this.biomes.getColumn(worldX, worldZ);
+        const height = this.getSurfaceHeight(worldX, worldZ, column);
+        heights[x][z] = height;
+        
+        // Generate terrain layers
+        for (let y = 0; y <= height; y++) {
+          data.set(x, y, z, this.biomes.getColumnBlock(column.biome, height - y));
+        }
+      }
+    }
+    
+    // Bedrock, caves and ores are carved out of the solid terrain in a separate pass
+    this.underground.apply(data, chunkX, chunkZ, heights);
+    
+    fillSea(data, heights);
+    
+    // Trees and buildings, including the parts neighbouring chunks queued for us
+    this.structures.decorate(data, chunkX, chunkZ);
+    
+    return {
+      x: chunkX,
+      z: chunkZ,
+      blocks: data.toBlocks(chunkX, chunkZ),
+      isReady: true,
+      data
+    };
+  }
+  
+  private getSurfaceHeight(x: number, z: number, column: BiomeColumn = this.biomes.getColumn(x, z)): number {
+    return getSurfaceHeight(this.heightNoise, column, x, z, this.settings);
+  }
+}
@@ -0,0 +1,83 @@
+// Main-thread side of the mesh worker, falling back to in-thread meshing
+import type { ChunkVolume, MeshOptions, MeshSection } from './chunkMesher';
+import { buildChunkMesh } from './chunkMesher';
+
+interface PendingMesh {
+  resolve: (sections: MeshSection[]) => void;
+  reject: (error: Error) => void;
+}
+
+class ChunkMeshClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private pending = new Map<number, PendingMesh>();
+  private nextId = 0;
+
+  buildMesh(volume: ChunkVolume, options: MeshOptions): Promise<MeshSection[]> {
+    const worker = this.getWorker();
+
+    if (!worker) {
+      return Promise.resolve(buildChunkMesh(volume, options));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ type: 'BUILD_MESH', volume, options, id }, [volume.cells.buffer, volume.light.buffer]);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      if (typeof Worker === 'undefined') {
+        throw new Error('Web Workers are not supported');
+      }
+
+      const worker = new Worker(
+        new URL('./meshWorker.ts', import.meta.url),
+        { type: 'module' }
+      );
+
+      worker.onmessage = (event) => {
+        const data = event.data;
+        switch (data.type) {
+          case 'MESH_BUILT':
+            this.pending.get(data.id)?.resolve(data.sections as MeshSection[]);
+            this.pending.delete(data.id);
+            break;
+
+          case 'ERROR':
+            this.pending.get(data.id)?.reject(new Error(data.error));
+            this.pending.delete(data.id);
+            break;
+        }
+      };
+
+      worker.onerror = () => {
+        console.warn('Mesh worker error detected, meshing on main thread');
+        this.fail(new Error('Mesh worker crashed'));
+      };
+
+      this.worker = worker;
+    } catch (error) {
+      console.warn('Failed to initialize mesh worker, meshing on main thread:', error);
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+
+  private fail(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
+
+// Shared client so every chunk uses the same worker
+export const chunkMeshClient = new ChunkMeshClient();
@@ -0,0 +1,351 @@
+// Greedy chunk mesher - shared by the mesh worker and the main-thread fallback
+import { BLOCK_TYPES, CHUNK_SIZE, ChunkData, WORLD_HEIGHT } from '../types/game';
+import { getFluidSource, isFluid } from './fluids';
+import type { LightData } from './lighting';
+import { OPEN_SKY_LIGHT, getBlockLight, getLightBrightness, getSkyLight } from './lighting';
+import { getBlockFaceRect, getFaceForAxis } from './textureAtlas';
+
+// Edge length of the padded volume: the chunk plus a one-block border from its neighbours
+export const PADDED_SIZE = CHUNK_SIZE + 2;
+
+// Block type ids for a chunk and its border, index = (y * PADDED_SIZE + (z + 1)) * PADDED_SIZE + (x + 1)
+export interface ChunkVolume {
+  cells: Uint16Array;
+  light: Uint8Array; // Packed light per cell, same indexing as `cells`
+  height: number; // Cells above this are air under open sky
+}
+
+export interface MeshOptions {
+  ambientOcclusion: boolean; // Darken face corners tucked against neighbouring blocks
+}
+
+export const DEFAULT_MESH_OPTIONS: MeshOptions = { ambientOcclusion: true };
+
+// One draw group per block type; see-through fluids need their own material and draw order
+export interface MeshSection {
+  blockType: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  // UVs in block units, so a merged quad covers its texture once per block. The shader wraps
+  // them with fract() into the face's atlas tile, given per vertex as (u, v, width, height).
+  uvs: Float32Array;
+  tiles: Float32Array;
+  // Baked light per vertex: sky light brightness in red, block light in green and the brighter
+  // of the two in blue. The chunk material scales red by the time of day (see ChunkMesh).
+  colors: Float32Array;
+  indices: Uint32Array;
+}
+
+// Snapshot a chunk and its neighbours' border cells; missing neighbours read as air under open sky
+export function buildChunkVolume(
+  getChunkData: (chunkX: number, chunkZ: number) => ChunkData | undefined,
+  chunkX: number,
+  chunkZ: number,
+  getChunkLight: (chunkX: number, chunkZ: number) => LightData | undefined = () => undefined
+): ChunkVolume {
+  const columns: Array<{ data: ChunkData; light?: LightData; x: number; z: number } | null> = [];
+
+  for (let z = -1; z <= CHUNK_SIZE; z++) {
+    for (let x = -1; x <= CHUNK_SIZE; x++) {
+      const offsetX = x < 0 ? -1 : x >= CHUNK_SIZE ? 1 : 0;
+      const offsetZ = z < 0 ? -1 : z >= CHUNK_SIZE ? 1 : 0;
+      const data = getChunkData(chunkX + offsetX, chunkZ + offsetZ);
+      const light = getChunkLight(chunkX + offsetX, chunkZ + offsetZ);
+      columns.push(data ? { data, light, x: x - offsetX * CHUNK_SIZE, z: z - offsetZ * CHUNK_SIZE } : null);
+    }
+  }
+
+  // Only copy up to the tallest column so mostly-empty chunks stay small
+  let height = 0;
+  columns.forEach(column => {
+    if (!column) return;
+    for (let y = WORLD_HEIGHT - 1; y >= height; y--) {
+      if (column.data.get(column.x, y, column.z) !== 0) {
+        height = y + 1;
+        break;
+      }
+    }
+  });
+
+  const layer = PADDED_SIZE * PADDED_SIZE;
+  const cells = new Uint16Array(layer * height);
+  const light = new Uint8Array(layer * height).fill(OPEN_SKY_LIGHT);
+  columns.forEach((column, index) => {
+    if (!column) return;
+    for (let y = 0; y < height; y++) {
+      cells[y * layer + index] = column.data.get(column.x, y, column.z);
+      if (column.light) light[y * layer + index] = column.light[ChunkData.index(column.x, y, column.z)];
+    }
+  });
+
+  return { cells, light, height };
+}
+
+// Buffers belonging to a set of sections, for zero-copy postMessage
+export function getSectionTransferables(sections: MeshSection[]): Transferable[] {
+  return sections.flatMap(section => [
+    section.positions.buffer as ArrayBuffer,
+    section.normals.buffer as ArrayBuffer,
+    section.uvs.buffer as ArrayBuffer,
+    section.tiles.buffer as ArrayBuffer,
+    section.colors.buffer as ArrayBuffer,
+    section.indices.buffer as ArrayBuffer
+  ]);
+}
+
+interface SectionBuilder {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  tiles: number[];
+  colors: number[];
+  indices: number[];
+}
+
+const isTransparent = (blockType: number): boolean =>
+  BLOCK_TYPES[blockType]?.transparent ?? false;
+
+// A face of `self` is drawn when the cell it faces does not fully hide it
+const showsFace = (self: number, other: number): boolean =>
+  self !== 0 && (other === 0 || (other !== self && isTransparent(other)));
+
+// Mask entries pack a face's block type with the light of the cell it faces, so only faces
+// lit the same merge. Block types fit in 16 bits (Uint16Array cells).
+const LIGHT_SHIFT = 16;
+const BLOCK_MASK = 0xffff;
+
+// Per-vertex ambient occlusion: 0 (corner boxed in) to 3 (open), two bits per quad corner in
+// emitQuad's corner order. Brightness factor for each level:
+const AO_BRIGHTNESS = [0.5, 0.7, 0.85, 1];
+const OPEN_AO = 0xff; // All four corners unoccluded
+// Direction from each quad corner away from the face centre, along (u, v)
+const CORNER_SIGNS: Array<[number, number]> = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+const cornerAO = (side1: boolean, side2: boolean, corner: boolean): number =>
+  side1 && side2 ? 0 : 3 - Number(side1) - Number(side2) - Number(corner);
+
+const cornerAt = (ao: number, corner: number): number => (ao >> (corner * 2)) & 3;
+
+// Only faces with the same AO at every corner can merge without smearing the shading
+const isUniformAO = (ao: number): boolean => ao === 0 || ao === 0x55 || ao === 0xaa || ao === OPEN_AO;
+
+// Build merged quads for every visible face in the chunk's interior
+export function buildChunkMesh(volume: ChunkVolume, options: MeshOptions = DEFAULT_MESH_OPTIONS): MeshSection[] {
+  const { cells, light, height } = volume;
+  const dims = [CHUNK_SIZE, height, CHUNK_SIZE];
+  const builders = new Map<number, SectionBuilder>();
+
+  // Interior coordinates run 0..CHUNK_SIZE-1; -1 and CHUNK_SIZE read the border.
+  // Every level of a fluid reads as its source so they merge into one surface.
+  const at = (x: number, y: number, z: number): number => {
+    if (y < 0 || y >= height) return 0;
+    return getFluidSource(cells[(y * PADDED_SIZE + (z + 1)) * PADDED_SIZE + (x + 1)]);
+  };
+  const lightAt = (x: number, y: number, z: number): number => {
+    if (y >= height) return OPEN_SKY_LIGHT;
+    if (y < 0) return 0;
+    return light[(y * PADDED_SIZE + (z + 1)) * PADDED_SIZE + (x + 1)];
+  };
+
+  // Fluids and air cast no contact shadow
+  const occludes = (cell: number[]): boolean => {
+    const blockType = at(cell[0], cell[1], cell[2]);
+    return blockType !== 0 && !isFluid(blockType);
+  };
+
+  // AO of a face looking into `facing`, sampling the three cells around each corner in that layer
+  const faceAO = (blockType: number, facing: number[], u: number, v: number): number => {
+    if (!options.ambientOcclusion || isFluid(blockType)) return OPEN_AO;
+
+    let ao = 0;
+    CORNER_SIGNS.forEach(([su, sv], corner) => {
+      const side1 = [...facing];
+      side1[u] += su;
+      const side2 = [...facing];
+      side2[v] += sv;
+      const diagonal = [...side1];
+      diagonal[v] += sv;
+      ao |= cornerAO(occludes(side1), occludes(side2), occludes(diagonal)) << (corner * 2);
+    });
+    return ao;
+  };
+
+  const getBuilder = (blockType: number): SectionBuilder => {
+    let builder = builders.get(blockType);
+    if (!builder) {
+      builder = { positions: [], normals: [], uvs: [], tiles: [], colors: [], indices: [] };
+      builders.set(blockType, builder);
+    }
+    return builder;
+  };
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const position = [0, 0, 0];
+    const step = [0, 0, 0];
+    step[d] = 1;
+
+    // Signed block type and light per face in the slice: + faces point along d, - against it
+    const mask = new Int32Array(dims[u] * dims[v]);
+    const aoMask = new Uint8Array(dims[u] * dims[v]);
+
+    for (position[d] = 0; position[d] <= dims[d]; position[d]++) {
+      let n = 0;
+      for (position[v] = 0; position[v] < dims[v]; position[v]++) {
+        for (position[u] = 0; position[u] < dims[u]; position[u]++) {
+          const behind = at(position[0] - step[0], position[1] - step[1], position[2] - step[2]);
+          const ahead = at(position[0], position[1], position[2]);
+
+          // Faces of border cells belong to the neighbouring chunk's mesh
+          const behindInside = position[d] > 0;
+          const aheadInside = position[d] < dims[d];
+
+          if (behindInside && showsFace(behind, ahead)) {
+            aoMask[n] = faceAO(behind, position, u, v);
+            mask[n++] = behind | (lightAt(position[0], position[1], position[2]) << LIGHT_SHIFT);
+          } else if (aheadInside && showsFace(ahead, behind)) {
+            const facing = [position[0] - step[0], position[1] - step[1], position[2] - step[2]];
+            aoMask[n] = faceAO(ahead, facing, u, v);
+            mask[n++] = -(ahead | (lightAt(facing[0], facing[1], facing[2]) << LIGHT_SHIFT));
+          } else {
+            mask[n++] = 0;
+          }
+        }
+      }
+
+      // Merge equal faces into the largest rectangles we can grow
+      n = 0;
+      for (let j = 0; j < dims[v]; j++) {
+        for (let i = 0; i < dims[u]; ) {
+          const face = mask[n];
+          if (face === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          const ao = aoMask[n];
+          const sameFace = (index: number) => mask[index] === face && aoMask[index] === ao;
+          const mergeable = isUniformAO(ao);
+
+          let width = 1;
+          while (mergeable && i + width < dims[u] && sameFace(n + width)) width++;
+
+          let faceHeight = 1;
+          grow: while (mergeable && j + faceHeight < dims[v]) {
+            for (let k = 0; k < width; k++) {
+              if (!sameFace(n + k + faceHeight * dims[u])) break grow;
+            }
+            faceHeight++;
+          }
+
+          const origin = [0, 0, 0];
+          origin[d] = position[d];
+          origin[u] = i;
+          origin[v] = j;
+          const du = [0, 0, 0];
+          du[u] = width;
+          const dv = [0, 0, 0];
+          dv[v] = faceHeight;
+
+          const packed = Math.abs(face);
+          const blockType = packed & BLOCK_MASK;
+          emitQuad(
+            getBuilder(blockType),
+            blockType,
+            origin,
+            du,
+            dv,
+            d,
+            face > 0,
+            width,
+            faceHeight,
+            packed >> LIGHT_SHIFT,
+            ao
+          );
+
+          for (let l = 0; l < faceHeight; l++) {
+            for (let k = 0; k < width; k++) {
+              mask[n + k + l * dims[u]] = 0;
+            }
+          }
+
+          i += width;
+          n += width;
+        }
+      }
+    }
+  }
+
+  return Array.from(builders.entries()).map(([blockType, builder]) => ({
+    blockType,
+    positions: new Float32Array(builder.positions),
+    normals: new Float32Array(builder.normals),
+    uvs: new Float32Array(builder.uvs),
+    tiles: new Float32Array(builder.tiles),
+    colors: new Float32Array(builder.colors),
+    indices: new Uint32Array(builder.indices)
+  }));
+}
+
+// Texture coordinates for emitQuad's corners, in block units. Side faces keep the texture
+// upright with its left edge on the viewer's left; quads on the x axis run along y first.
+function getTextureCoords(axis: number, positive: boolean, width: number, height: number): Array<[number, number]> {
+  const corners: Array<[number, number]> = [[0, 0], [width, 0], [width, height], [0, height]];
+  switch (axis) {
+    case 0:
+      return corners.map(([u, v]) => [positive ? height - v : v, u]);
+    case 2:
+      return corners.map(([u, v]) => [positive ? u : width - u, v]);
+    default:
+      return corners;
+  }
+}
+
+function emitQuad(
+  builder: SectionBuilder,
+  blockType: number,
+  origin: number[],
+  du: number[],
+  dv: number[],
+  axis: number,
+  positive: boolean,
+  width: number,
+  height: number,
+  light: number,
+  ao: number
+): void {
+  const base = builder.positions.length / 3;
+  const corners = [
+    origin,
+    [origin[0] + du[0], origin[1] + du[1], origin[2] + du[2]],
+    [origin[0] + du[0] + dv[0], origin[1] + du[1] + dv[1], origin[2] + du[2] + dv[2]],
+    [origin[0] + dv[0], origin[1] + dv[1], origin[2] + dv[2]]
+  ];
+  const normal = [0, 0, 0];
+  normal[axis] = positive ? 1 : -1;
+  const tile = getBlockFaceRect(blockType, getFaceForAxis(axis, positive));
+  const textureCoords = getTextureCoords(axis, positive, width, height);
+
+  corners.forEach((corner, index) => {
+    const occlusion = AO_BRIGHTNESS[cornerAt(ao, index)];
+    const sky = getLightBrightness(getSkyLight(light)) * occlusion;
+    const block = getLightBrightness(getBlockLight(light)) * occlusion;
+    builder.positions.push(corner[0], corner[1], corner[2]);
+    builder.normals.push(normal[0], normal[1], normal[2]);
+    builder.colors.push(sky, block, Math.max(sky, block));
+    builder.uvs.push(...textureCoords[index]);
+    builder.tiles.push(tile.u, tile.v, tile.width, tile.height);
+  });
+
+  // Split along the brighter diagonal so a single dark corner shades a triangle instead of
+  // smearing across the whole quad. Counter-clockwise when seen from the side the normal points to.
+  const flip = cornerAt(ao, 0) + cornerAt(ao, 2) < cornerAt(ao, 1) + cornerAt(ao, 3);
+  const [a, b, c, d] = flip ? [base + 1, base + 2, base + 3, base] : [base, base + 1, base + 2, base + 3];
+  if (positive) {
+    builder.indices.push(a, b, c, a, c, d);
+  } else {
+    builder.indices.push(a, c, b, a, d, c);
+  }
+}
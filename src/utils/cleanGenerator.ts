@@ -1,5 +1,6 @@
 // Clean version of the ImprovedWorldGenerator
-import type { Chunk, Block } from '../types/game';
+import type { Chunk, Block, WorldSeed } from '../types/game';
+import { DEFAULT_WORLD_SEED, hashSeed, mixSeed } from './seed';
 
 // Constants
 const CHUNK_SIZE = 16;
@@ -36,10 +37,14 @@ export class ImprovedWorldGenerator {
   private detailNoise: ImprovedNoise;
   private chunkCache = new Map<string, Chunk>();
   
-  constructor() {
-    console.log('ImprovedWorldGenerator initialized');
-    this.heightNoise = new ImprovedNoise(12345);
-    this.detailNoise = new ImprovedNoise(54321);
+  readonly seed: WorldSeed;
+  
+  constructor(seed: WorldSeed = DEFAULT_WORLD_SEED) {
+    console.log(`ImprovedWorldGenerator initialized (seed ${seed})`);
+    this.seed = seed;
+    const baseSeed = hashSeed(seed);
+    this.heightNoise = new ImprovedNoise(mixSeed(baseSeed, 1));
+    this.detailNoise = new ImprovedNoise(mixSeed(baseSeed, 2));
   }
   
   generateChunk(chunkX: number, chunkZ: number): Chunk {
@@ -0,0 +1,122 @@
+// Chat commands - lines like "/gamemode creative" typed into the command bar.
+// Commands act on the running session through a CommandContext and answer with a message;
+// bad input throws an Error whose message is shown to the player.
+import type { GameState } from '../types/game';
+import { GAME_MODE_NAMES } from '../types/game';
+import { TIME_PRESETS, formatClock, getDay, getNextTimeOfDay, getTimeOfDay } from './dayCycle';
+
+// What commands may change in the running session
+export interface CommandContext {
+  setGameMode: (gameMode: GameState['gameMode']) => void;
+  getTime: () => number; // World time in ticks
+  setTime: (time: number) => void;
+}
+
+export interface Command {
+  name: string;
+  usage: string;
+  description: string;
+  run: (args: string[], context: CommandContext) => string;
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, Command>();
+
+  register(command: Command): void {
+    if (this.commands.has(command.name)) {
+      throw new Error(`Command "/${command.name}" is already registered`);
+    }
+    this.commands.set(command.name, command);
+  }
+
+  getAll(): Command[] {
+    return Array.from(this.commands.values());
+  }
+
+  // Run one line of input; the leading slash is optional
+  execute(line: string, context: CommandContext): string {
+    const [name, ...args] = line.trim().replace(/^\//, '').split(/\s+/);
+    const command = this.commands.get(name.toLowerCase());
+    if (!command) {
+      throw new Error(`Unknown command "/${name}". Type /help for a list.`);
+    }
+    return command.run(args, context);
+  }
+}
+
+// Modes can be written out or abbreviated, as in "/gamemode c" or "/gamemode 1"
+// A Map, so words like "constructor" are not found on Object.prototype
+const GAME_MODE_ALIASES = new Map<string, GameState['gameMode']>([
+  ['survival', 'survival'], ['s', 'survival'], ['0', 'survival'],
+  ['creative', 'creative'], ['c', 'creative'], ['1', 'creative'],
+  ['spectator', 'spectator'], ['sp', 'spectator'], ['3', 'spectator']
+]);
+
+export const parseGameMode = (value: string | undefined): GameState['gameMode'] | undefined =>
+  value === undefined ? undefined : GAME_MODE_ALIASES.get(value.toLowerCase());
+
+export const commandRegistry = new CommandRegistry();
+
+commandRegistry.register({
+  name: 'help',
+  usage: '/help',
+  description: 'List the available commands',
+  run: () => commandRegistry.getAll().map(command => `${command.usage} - ${command.description}`).join('\n')
+});
+
+commandRegistry.register({
+  name: 'gamemode',
+  usage: '/gamemode <survival|creative|spectator>',
+  description: 'Switch game mode',
+  run: (args, context) => {
+    const gameMode = parseGameMode(args[0]);
+    if (!gameMode) {
+      throw new Error('Usage: /gamemode <survival|creative|spectator>');
+    }
+    context.setGameMode(gameMode);
+    return `Game mode set to ${GAME_MODE_NAMES[gameMode]}`;
+  }
+});
+
+// Time of day as a preset name or a tick count within the day
+const parseTimeOfDay = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const preset = TIME_PRESETS.get(value.toLowerCase());
+  if (preset !== undefined) return preset;
+  return /^\d+$/.test(value) ? Number(value) : undefined;
+};
+
+const describeTime = (time: number): string => `Day ${getDay(time)}, ${formatClock(time)} (${getTimeOfDay(time)})`;
+
+commandRegistry.register({
+  name: 'time',
+  usage: '/time <set <day|noon|night|midnight|ticks>|add <ticks>|query>',
+  description: 'Show or change the time of day; time only moves forward',
+  run: (args, context) => {
+    const [action, value] = args.map(arg => arg.toLowerCase());
+    const now = context.getTime();
+
+    switch (action) {
+      case 'set': {
+        const timeOfDay = parseTimeOfDay(value);
+        if (timeOfDay === undefined) {
+          throw new Error(`Usage: /time set <${Array.from(TIME_PRESETS.keys()).join('|')}|ticks>`);
+        }
+        const time = getNextTimeOfDay(now, timeOfDay);
+        context.setTime(time);
+        return `Time set to ${describeTime(time)}`;
+      }
+      case 'add': {
+        if (!value || !/^\d+$/.test(value)) throw new Error('Usage: /time add <ticks>');
+        const time = now + Number(value);
+        context.setTime(time);
+        return `Time set to ${describeTime(time)}`;
+      }
+      case 'query':
+      case undefined:
+        return `It is ${describeTime(now)}`;
+      default:
+        throw new Error('Usage: /time <set|add|query>');
+    }
+  }
+});
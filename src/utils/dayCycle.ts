@@ -0,0 +1,70 @@
+// Day/night cycle. World time is the simulation tick count; a day lasts TICKS_PER_DAY ticks
+// starting at sunrise, so 6000 is noon, 12000 sunset and 18000 midnight. Everything here is
+// a pure function of the time so renderers can evaluate it at fractional ticks.
+
+export const TICKS_PER_DAY = 24000;
+
+// Named times of day for /time set; a Map so only these names match, not Object.prototype keys
+export const TIME_PRESETS = new Map<string, number>([
+  ['sunrise', 0],
+  ['day', 1000],
+  ['noon', 6000],
+  ['sunset', 12000],
+  ['night', 13000],
+  ['midnight', 18000]
+]);
+
+const SUN_TILT = 0.25; // The sun's path leans slightly south instead of passing straight overhead
+const NIGHT_SKY: [number, number, number] = [0.02, 0.03, 0.09];
+const DAY_SKY: [number, number, number] = [0.53, 0.81, 0.92];
+const DUSK_SKY: [number, number, number] = [0.98, 0.55, 0.35];
+const MIN_SKY_LIGHT = 0.2; // Sky light at midnight, relative to noon
+
+export const getTimeOfDay = (time: number): number =>
+  ((time % TICKS_PER_DAY) + TICKS_PER_DAY) % TICKS_PER_DAY;
+
+// Days are counted from 1
+export const getDay = (time: number): number => Math.floor(time / TICKS_PER_DAY) + 1;
+
+// First tick at or after `time` whose time of day is `timeOfDay`; the clock never runs backwards
+export function getNextTimeOfDay(time: number, timeOfDay: number): number {
+  const dayStart = time - getTimeOfDay(time);
+  const target = dayStart + getTimeOfDay(timeOfDay);
+  return target >= time ? target : target + TICKS_PER_DAY;
+}
+
+// Height of the sun above the horizon, -1 at midnight to 1 at noon
+const sunHeight = (time: number): number => Math.sin(getTimeOfDay(time) / TICKS_PER_DAY * Math.PI * 2);
+
+// Unit vector towards the sun; the moon is always opposite
+export function getSunDirection(time: number): [number, number, number] {
+  const angle = getTimeOfDay(time) / TICKS_PER_DAY * Math.PI * 2;
+  const length = Math.hypot(1, SUN_TILT);
+  return [Math.cos(angle) / length, Math.sin(angle) / length, SUN_TILT / length];
+}
+
+// 0 at night, 1 in full daylight, easing in and out around sunrise and sunset
+export function getDaylight(time: number): number {
+  const t = Math.min(1, Math.max(0, sunHeight(time) * 3 + 0.3));
+  return t * t * (3 - 2 * t);
+}
+
+const mix = (a: [number, number, number], b: [number, number, number], t: number): [number, number, number] =>
+  [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+// Sky and fog colour as linear RGB 0-1, blushing towards orange while the sun is near the horizon
+export function getSkyColor(time: number): [number, number, number] {
+  const dusk = Math.max(0, 1 - Math.abs(sunHeight(time)) * 5);
+  return mix(mix(NIGHT_SKY, DAY_SKY, getDaylight(time)), DUSK_SKY, dusk * 0.6);
+}
+
+// Factor applied to voxel sky light; block light is unaffected
+export const getSkyLightMultiplier = (time: number): number =>
+  MIN_SKY_LIGHT + (1 - MIN_SKY_LIGHT) * getDaylight(time);
+
+// 24-hour clock face, "06:00" at sunrise
+export function formatClock(time: number): string {
+  const hours = (getTimeOfDay(time) / 1000 + 6) % 24;
+  const minutes = Math.floor((hours % 1) * 60);
+  return `${String(Math.floor(hours)).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
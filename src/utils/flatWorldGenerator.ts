@@ -0,0 +1,34 @@
+// Flat World Generator - bedrock, dirt and grass at a fixed height, for building tests
+import type { Chunk } from '../types/game';
+import { BLOCKS, ChunkData } from '../types/game';
+
+const CHUNK_SIZE = 16;
+
+// Block per layer, bottom to top
+const LAYERS = [BLOCKS.BEDROCK, BLOCKS.STONE, BLOCKS.STONE, BLOCKS.DIRT, BLOCKS.DIRT, BLOCKS.GRASS];
+
+export class FlatWorldGenerator {
+  private template: ChunkData;
+
+  constructor() {
+    this.template = new ChunkData();
+    LAYERS.forEach((blockType, y) => {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          this.template.set(x, y, z, blockType);
+        }
+      }
+    });
+  }
+
+  generateChunk(chunkX: number, chunkZ: number): Chunk {
+    const data = new ChunkData(this.template.cells.slice(), this.template.palette);
+    return {
+      x: chunkX,
+      z: chunkZ,
+      blocks: data.toBlocks(chunkX, chunkZ),
+      isReady: true,
+      data
+    };
+  }
+}
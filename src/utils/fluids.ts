@@ -0,0 +1,148 @@
+// Water and lava. Each fluid has a source block (level 0) and flowing blocks for levels 1-7;
+// the level counts steps away from the nearest source. Fluids spread on scheduled block updates:
+// straight down when they can, otherwise sideways one level further, drying up again when
+// nothing feeds them. Where lava and water meet the lava hardens.
+import type { FluidKind } from '../types/game';
+import { BLOCKS, BLOCK_TYPES } from '../types/game';
+import type { World } from './world';
+
+const MAX_LEVEL = 7;
+
+interface FluidDefinition {
+  levels: number[]; // Block id for each level, 0 being the source
+  levelStep: number; // Levels lost per block spread sideways
+  delay: number; // Ticks between spreading steps
+  infinite: boolean; // Two sources with support beneath them create a third
+}
+
+// Block ids per level come from the `fluid` and `fluidLevel` of the registered block types
+const getLevelBlocks = (fluid: FluidKind): number[] =>
+  Array.from({ length: MAX_LEVEL + 1 }, (_, level) => {
+    const block = BLOCK_TYPES.find(type => type.fluid === fluid && type.fluidLevel === level);
+    if (!block) throw new Error(`Fluid "${fluid}" has no block for level ${level}`);
+    return block.id;
+  });
+
+const FLUIDS: Record<FluidKind, FluidDefinition> = {
+  water: { levels: getLevelBlocks('water'), levelStep: 1, delay: 8, infinite: true },
+  lava: { levels: getLevelBlocks('lava'), levelStep: 2, delay: 30, infinite: false }
+};
+
+const HORIZONTAL: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export const getFluid = (blockType: number): FluidKind | undefined => BLOCK_TYPES[blockType]?.fluid;
+
+export const isFluid = (blockType: number): boolean => getFluid(blockType) !== undefined;
+
+export const getFluidLevel = (blockType: number): number => BLOCK_TYPES[blockType]?.fluidLevel ?? 0;
+
+// Source block of a fluid block's kind; other blocks map to themselves. Lets the mesher treat
+// every level of a fluid as one material whose shared faces are hidden.
+export const getFluidSource = (blockType: number): number => {
+  const fluid = getFluid(blockType);
+  return fluid ? FLUIDS[fluid].levels[0] : blockType;
+};
+
+export const getFluidBlock = (fluid: FluidKind, level: number): number => FLUIDS[fluid].levels[level];
+
+// Block that forms where `fluid` runs into the other fluid occupying `target`
+const hardenedBlock = (fluid: FluidKind, target: number): number => {
+  const lavaLevel = fluid === 'lava' ? 1 : getFluidLevel(target);
+  return lavaLevel === 0 ? BLOCKS.OBSIDIAN : BLOCKS.STONE;
+};
+
+// Level a flowing block should have given its neighbours, or null when nothing feeds it
+const expectedLevel = (world: World, x: number, y: number, z: number, fluid: FluidKind): number | null => {
+  const definition = FLUIDS[fluid];
+  if (getFluid(world.getBlock(x, y + 1, z)) === fluid) return 1; // Falling from above
+
+  let lowest = Infinity;
+  let sources = 0;
+  HORIZONTAL.forEach(([dx, dz]) => {
+    const neighbour = world.getBlock(x + dx, y, z + dz);
+    if (getFluid(neighbour) !== fluid) return;
+    const level = getFluidLevel(neighbour);
+    if (level === 0) sources++;
+    lowest = Math.min(lowest, level);
+  });
+
+  if (definition.infinite && sources >= 2) {
+    const below = world.getBlock(x, y - 1, z);
+    if (below === definition.levels[0] || (below > 0 && !isFluid(below))) return 0;
+  }
+
+  const level = lowest + definition.levelStep;
+  return level <= MAX_LEVEL ? level : null;
+};
+
+// Can `fluid` at `level` move into a cell holding `target`?
+const canFlowInto = (target: number, fluid: FluidKind, level: number): boolean => {
+  if (target === 0) return true;
+  const targetFluid = getFluid(target);
+  if (!targetFluid) return false;
+  return targetFluid !== fluid || getFluidLevel(target) > level;
+};
+
+const flowInto = (world: World, x: number, y: number, z: number, fluid: FluidKind, level: number): void => {
+  const target = world.getBlock(x, y, z);
+  const targetFluid = getFluid(target);
+  world.setBlock(x, y, z, targetFluid && targetFluid !== fluid
+    ? hardenedBlock(fluid, target)
+    : getFluidBlock(fluid, level));
+};
+
+const updateFluid = (world: World, x: number, y: number, z: number, blockType: number): void => {
+  const fluid = getFluid(blockType);
+  if (!fluid) return;
+
+  // Lava next to or under water hardens: sources into obsidian, flowing lava into stone
+  if (fluid === 'lava') {
+    const neighbours = [...HORIZONTAL.map(([dx, dz]) => world.getBlock(x + dx, y, z + dz)), world.getBlock(x, y + 1, z)];
+    if (neighbours.some(neighbour => getFluid(neighbour) === 'water')) {
+      world.setBlock(x, y, z, getFluidLevel(blockType) === 0 ? BLOCKS.OBSIDIAN : BLOCKS.STONE);
+      return;
+    }
+  }
+
+  let level = getFluidLevel(blockType);
+  if (level > 0) {
+    const expected = expectedLevel(world, x, y, z, fluid);
+    if (expected === null) {
+      world.setBlock(x, y, z, 0);
+      return;
+    }
+    if (expected !== level) {
+      // The change schedules this block again, so spreading continues from the new level
+      world.setBlock(x, y, z, getFluidBlock(fluid, expected));
+      return;
+    }
+    level = expected;
+  }
+
+  // Falling takes priority; fluid resting on more of itself does not spread sideways either
+  const below = world.getBlock(x, y - 1, z);
+  if (y > 0 && canFlowInto(below, fluid, 1)) {
+    flowInto(world, x, y - 1, z, fluid, 1);
+    return;
+  }
+  if (getFluid(below) === fluid) return;
+
+  const next = level + FLUIDS[fluid].levelStep;
+  if (next > MAX_LEVEL) return;
+  HORIZONTAL.forEach(([dx, dz]) => {
+    if (canFlowInto(world.getBlock(x + dx, y, z + dz), fluid, next)) {
+      flowInto(world, x + dx, y, z + dz, fluid, next);
+    }
+  });
+};
+
+// Hook every water and lava block into the world's block updates
+export function registerFluidBehaviors(target: World): void {
+  BLOCK_TYPES.filter(block => block.fluid).forEach(block => {
+    target.registerBlockBehavior(
+      block.id,
+      (x, y, z, blockType, world) => updateFluid(world, x, y, z, blockType),
+      FLUIDS[block.fluid!].delay
+    );
+  });
+}
@@ -0,0 +1,54 @@
+// Per-device graphics preferences. They belong to the machine rather than to a world, so they
+// live in localStorage instead of the save slots; defaults come from getOptimalSettings().
+import { getOptimalSettings } from './webglConfig';
+
+const STORAGE_KEY = 'minecraft-graphics-settings';
+
+export interface GraphicsOptions {
+  ambientOcclusion: boolean;
+}
+
+export type GraphicsListener = (options: GraphicsOptions) => void;
+
+export class GraphicsSettings {
+  private options: GraphicsOptions | null = null;
+  private listeners = new Set<GraphicsListener>();
+
+  // Loaded on first use so nothing touches the browser environment at import time
+  get current(): GraphicsOptions {
+    if (!this.options) this.options = this.load();
+    return this.options;
+  }
+
+  update(changes: Partial<GraphicsOptions>): void {
+    this.options = { ...this.current, ...changes };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.options));
+    } catch (error) {
+      console.error('❌ GraphicsSettings: Failed to save settings:', error);
+    }
+    const options = this.options;
+    this.listeners.forEach(listener => listener(options));
+  }
+
+  // Register for changes; returns an unsubscribe function
+  subscribe(listener: GraphicsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): GraphicsOptions {
+    const defaults: GraphicsOptions = { ambientOcclusion: getOptimalSettings().ambientOcclusion };
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch (error) {
+      console.error('❌ GraphicsSettings: Failed to load settings:', error);
+      return defaults;
+    }
+  }
+}
+
+export const graphicsSettings = new GraphicsSettings();
@@ -1,5 +1,7 @@
 // Standard import without extension
-import type { Chunk, Block } from '../types/game';
+import type { Chunk, WorldSeed } from '../types/game';
+import { ChunkData } from '../types/game';
+import { DEFAULT_WORLD_SEED, hashSeed, mixSeed } from './seed';
 
 const CHUNK_SIZE = 16;
 
@@ -88,11 +90,15 @@ export class ImprovedWorldGenerator {
   private readonly MIN_HEIGHT = 35;
   private readonly MAX_HEIGHT = 55;
   
-  constructor() {
-    this.heightNoise = new ImprovedNoise(12345);
-    this.roughnessNoise = new ImprovedNoise(67890);
-    this.caveNoise = new ImprovedNoise(24680);
-    this.vegetationNoise = new ImprovedNoise(13579);
+  readonly seed: WorldSeed;
+  
+  constructor(seed: WorldSeed = DEFAULT_WORLD_SEED) {
+    this.seed = seed;
+    const baseSeed = hashSeed(seed);
+    this.heightNoise = new ImprovedNoise(mixSeed(baseSeed, 1));
+    this.roughnessNoise = new ImprovedNoise(mixSeed(baseSeed, 2));
+    this.caveNoise = new ImprovedNoise(mixSeed(baseSeed, 3));
+    this.vegetationNoise = new ImprovedNoise(mixSeed(baseSeed, 4));
   }
   
   generateChunk(chunkX: number, chunkZ: number): Chunk {
@@ -102,7 +108,7 @@ export class ImprovedWorldGenerator {
       return this.chunkCache.get(cacheKey)!;
     }
     
-    const blockMap = new Map<string, Block>();
+    const data = new ChunkData();
     let blockCount = 0;
     
     // Generate varied terrain with multiple noise layers
@@ -154,13 +160,7 @@ export class ImprovedWorldGenerator {
           }
           
           if (blockType !== 0) {
-            const blockKey = `${x},${y},${z}`;
-            blockMap.set(blockKey, {
-              type: blockType,
-              x: worldX,
-              y,
-              z: worldZ,
-            });
+            data.set(x, y, z, blockType);
             blockCount++;
           }
         }
@@ -169,47 +169,35 @@ export class ImprovedWorldGenerator {
         if (height > this.MIN_HEIGHT + 8 && blockCount < this.MAX_BLOCKS_PER_CHUNK - 5) {
           const vegValue = this.vegetationNoise.noise(worldX * 0.05, worldZ * 0.05);
           if (vegValue > 0.8) { // Very high threshold
-            this.generateSimpleTree(blockMap, x, height + 1, z, worldX, worldZ);
+            this.generateSimpleTree(data, x, height + 1, z);
             blockCount += 5; // Estimate tree block count
           }
         }
       }
     }
     
-    const blocks = Array.from(blockMap.values());
+    const blocks = data.toBlocks(chunkX, chunkZ);
     console.log(`Generated improved chunk ${chunkX},${chunkZ} with ${blocks.length} blocks (limit: ${this.MAX_BLOCKS_PER_CHUNK})`);
     
     const chunk: Chunk = {
       x: chunkX,
       z: chunkZ,
       blocks,
-      isReady: true
+      isReady: true,
+      data
     };
     
     this.chunkCache.set(cacheKey, chunk);
     return chunk;
   }
   
-  private generateSimpleTree(
-    blockMap: Map<string, Block>, 
-    x: number, 
-    y: number, 
-    z: number,
-    worldX: number,
-    worldZ: number
-  ): void {
+  private generateSimpleTree(data: ChunkData, x: number, y: number, z: number): void {
     // Simple tree: 3-block trunk + minimal leaves
     const treeHeight = 3;
     
     // Trunk
     for (let i = 0; i < treeHeight; i++) {
-      const blockKey = `${x},${y + i},${z}`;
-      blockMap.set(blockKey, {
-        type: 4, // Wood
-        x: worldX,
-        y: y + i,
-        z: worldZ,
-      });
+      data.set(x, y + i, z, 4); // Wood
     }
     
     // Minimal leaves crown (just top and sides)
@@ -223,14 +211,8 @@ export class ImprovedWorldGenerator {
       const leafZ = z + dz;
       
       if (leafX >= 0 && leafX < CHUNK_SIZE && leafZ >= 0 && leafZ < CHUNK_SIZE) {
-        const blockKey = `${leafX},${leavesY},${leafZ}`;
-        if (!blockMap.has(blockKey)) {
-          blockMap.set(blockKey, {
-            type: 5, // Leaves
-            x: worldX + dx,
-            y: leavesY,
-            z: worldZ + dz,
-          });
+        if (data.get(leafX, leavesY, leafZ) === 0) {
+          data.set(leafX, leavesY, leafZ, 5); // Leaves
         }
       }
     });
@@ -0,0 +1,214 @@
+// Inventory model - fixed slots of item stacks plus the stack held on the cursor.
+// Every operation returns new arrays so results can go straight into React state.
+import type { InventorySlot, ItemStack } from '../types/game';
+import { getItemType } from '../types/game';
+import { consumeIngredients, recipeRegistry } from './recipes';
+
+export const INVENTORY_SIZE = 36; // Slots 0-8 are the hotbar, 9-35 the main inventory
+export const HOTBAR_SIZE = 9;
+export const MAX_STACK_SIZE = 64; // For blocks and materials; tools do not stack
+
+export function createInventory(): InventorySlot[] {
+  return new Array<InventorySlot>(INVENTORY_SIZE).fill(null);
+}
+
+export function getMaxStackSize(itemId: number): number {
+  return getItemType(itemId)?.maxStackSize ?? 0;
+}
+
+// Stacks with metadata are unique and never merge
+const canStack = (a: ItemStack, b: ItemStack): boolean =>
+  a.itemId === b.itemId && !a.metadata && !b.metadata;
+
+const withCount = (stack: ItemStack, count: number): InventorySlot =>
+  count > 0 ? { ...stack, count } : null;
+
+// Add items to existing stacks first, then to empty slots, hotbar before main inventory.
+// `remaining` is what did not fit.
+export function addItem(
+  slots: InventorySlot[],
+  stack: ItemStack
+): { slots: InventorySlot[]; remaining: number } {
+  const result = [...slots];
+  const max = getMaxStackSize(stack.itemId);
+  let remaining = stack.count;
+
+  for (let i = 0; i < result.length && remaining > 0; i++) {
+    const slot = result[i];
+    if (!slot || !canStack(slot, stack) || slot.count >= max) continue;
+    const moved = Math.min(remaining, max - slot.count);
+    result[i] = { ...slot, count: slot.count + moved };
+    remaining -= moved;
+  }
+
+  for (let i = 0; i < result.length && remaining > 0; i++) {
+    if (result[i]) continue;
+    const moved = Math.min(remaining, max);
+    result[i] = { ...stack, count: moved };
+    remaining -= moved;
+  }
+
+  return { slots: result, remaining };
+}
+
+export function removeFromSlot(slots: InventorySlot[], index: number, count = 1): InventorySlot[] {
+  const slot = slots[index];
+  if (!slot) return slots;
+
+  const result = [...slots];
+  result[index] = withCount(slot, slot.count - count);
+  return result;
+}
+
+// A row of slots together with the stack picked up in the inventory screen
+export interface CursorState {
+  slots: InventorySlot[];
+  cursor: InventorySlot;
+}
+
+export interface InventoryState extends CursorState {
+  crafting: InventorySlot[]; // Crafting grid, row-major, 2×2 or 3×3
+}
+
+// Left click: pick up, put down, merge into, or swap with the slot
+export function leftClickSlot({ slots, cursor }: CursorState, index: number): CursorState {
+  const slot = slots[index];
+  const result = [...slots];
+
+  if (cursor && slot && canStack(cursor, slot)) {
+    const moved = Math.min(cursor.count, getMaxStackSize(slot.itemId) - slot.count);
+    result[index] = { ...slot, count: slot.count + moved };
+    return { slots: result, cursor: withCount(cursor, cursor.count - moved) };
+  }
+
+  result[index] = cursor;
+  return { slots: result, cursor: slot };
+}
+
+// Right click: pick up half a stack with an empty cursor, otherwise put down a single item
+export function rightClickSlot({ slots, cursor }: CursorState, index: number): CursorState {
+  const slot = slots[index];
+  const result = [...slots];
+
+  if (!cursor) {
+    if (!slot) return { slots, cursor };
+    const half = Math.ceil(slot.count / 2);
+    result[index] = withCount(slot, slot.count - half);
+    return { slots: result, cursor: { ...slot, count: half } };
+  }
+
+  if (!slot) {
+    result[index] = { ...cursor, count: 1 };
+    return { slots: result, cursor: withCount(cursor, cursor.count - 1) };
+  }
+
+  if (canStack(cursor, slot) && slot.count < getMaxStackSize(slot.itemId)) {
+    result[index] = { ...slot, count: slot.count + 1 };
+    return { slots: result, cursor: withCount(cursor, cursor.count - 1) };
+  }
+
+  return { slots, cursor };
+}
+
+// Shift click: move a stack between the hotbar and the main inventory
+export function quickMoveSlot(slots: InventorySlot[], index: number): InventorySlot[] {
+  const slot = slots[index];
+  if (!slot) return slots;
+
+  const [start, end] = index < HOTBAR_SIZE ? [HOTBAR_SIZE, slots.length] : [0, HOTBAR_SIZE];
+  const source = [...slots];
+  source[index] = null;
+
+  // Fill the other section only, then put back whatever did not fit
+  const section = addItem(source.slice(start, end), slot);
+  const result = [...source.slice(0, start), ...section.slots, ...source.slice(end)];
+  result[index] = withCount(slot, section.remaining);
+  return result;
+}
+
+// Drag and drop from one slot onto another: merge when possible, otherwise swap
+export function moveSlot(slots: InventorySlot[], from: number, to: number): InventorySlot[] {
+  if (from === to || !slots[from]) return slots;
+  const picked = leftClickSlot({ slots, cursor: null }, from);
+  const dropped = leftClickSlot(picked, to);
+  const result = [...dropped.slots];
+  result[from] = dropped.cursor; // Leftovers from a merge or the swapped stack
+  return result;
+}
+
+export function getCraftingSize(state: InventoryState): number {
+  return Math.round(Math.sqrt(state.crafting.length));
+}
+
+// Click on the crafting output: take one result onto the cursor if it fits there
+export function craftToCursor(state: InventoryState): InventoryState {
+  const recipe = recipeRegistry.findMatch(state.crafting, getCraftingSize(state));
+  if (!recipe) return state;
+
+  const { result } = recipe;
+  const { cursor } = state;
+  if (cursor && (!canStack(cursor, result) || cursor.count + result.count > getMaxStackSize(result.itemId))) {
+    return state;
+  }
+
+  return {
+    ...state,
+    crafting: consumeIngredients(state.crafting),
+    cursor: { ...result, count: (cursor?.count ?? 0) + result.count }
+  };
+}
+
+// Shift click on the output: craft as many as the grid and the inventory allow
+export function craftAllToInventory(state: InventoryState): InventoryState {
+  const size = getCraftingSize(state);
+  let { slots, crafting } = state;
+
+  for (let recipe = recipeRegistry.findMatch(crafting, size); recipe; recipe = recipeRegistry.findMatch(crafting, size)) {
+    const added = addItem(slots, recipe.result);
+    if (added.remaining > 0) break;
+    slots = added.slots;
+    crafting = consumeIngredients(crafting);
+  }
+
+  return { ...state, slots, crafting };
+}
+
+// Closing the screen returns the cursor and the crafting grid to the inventory. Whatever does
+// not fit stays on the cursor or in its grid cell, so a full inventory loses nothing.
+export function returnLooseItems(state: InventoryState): InventoryState {
+  let slots = state.slots;
+  const putAway = (stack: InventorySlot): InventorySlot => {
+    if (!stack) return null;
+    const added = addItem(slots, stack);
+    slots = added.slots;
+    return withCount(stack, added.remaining);
+  };
+  const cursor = putAway(state.cursor);
+  const crafting = state.crafting.map(putAway);
+  return { slots, cursor, crafting };
+}
+
+// Change the crafting grid's size, keeping stacks at their row and column where the new grid
+// has one and moving the rest into free cells. A grid whose stacks would not fit keeps its size.
+export function resizeCraftingGrid(crafting: InventorySlot[], size: number): InventorySlot[] {
+  const oldSize = Math.round(Math.sqrt(crafting.length));
+  const grid = new Array<InventorySlot>(size * size).fill(null);
+  const displaced: ItemStack[] = [];
+  crafting.forEach((stack, index) => {
+    if (!stack) return;
+    const row = Math.floor(index / oldSize);
+    const column = index % oldSize;
+    if (row < size && column < size) {
+      grid[row * size + column] = stack;
+    } else {
+      displaced.push(stack);
+    }
+  });
+
+  for (const stack of displaced) {
+    const free = grid.indexOf(null);
+    if (free === -1) return crafting;
+    grid[free] = stack;
+  }
+  return grid;
+}
@@ -0,0 +1,278 @@
+// Voxel lighting. Every cell carries two light levels from 0 to 15: sky light, which falls
+// straight down from the open sky without fading and spreads sideways losing one level per
+// block, and block light given off by emitting blocks such as torches and lava. Both spread by
+// breadth-first flood fill; edits first flood out the light they invalidate, then refill the
+// hole from whatever light remains around it. Light crosses chunk borders freely.
+import { BLOCK_TYPES, CHUNK_SIZE, ChunkData, WORLD_HEIGHT } from '../types/game';
+
+export const MAX_LIGHT = 15;
+// Light of a cell with nothing above it: full sky, no block light
+export const OPEN_SKY_LIGHT = MAX_LIGHT << 4;
+// Brightness of an unlit face, so caves are dark but never pitch black
+const MIN_BRIGHTNESS = 0.06;
+const BRIGHTNESS_FALLOFF = 0.8; // Each level is this much dimmer than the one above it
+
+// Shader uniform scaling sky light in every chunk material; the day/night cycle sets it each
+// frame so nightfall needs no remeshing
+export const skyLightUniform = { value: 1 };
+
+// Packed light per cell, same layout as ChunkData: sky light in the high nibble, block light low
+export type LightData = Uint8Array;
+
+export const getSkyLight = (packed: number): number => packed >> 4;
+export const getBlockLight = (packed: number): number => packed & 0x0f;
+
+// Vertex colour factor for a face lit at `level`
+export function getLightBrightness(level: number): number {
+  return MIN_BRIGHTNESS + (1 - MIN_BRIGHTNESS) * BRIGHTNESS_FALLOFF ** (MAX_LIGHT - level);
+}
+
+export const getLightEmission = (blockType: number): number => BLOCK_TYPES[blockType]?.lightEmission ?? 0;
+
+// Opaque blocks stop light; air, leaves, glass-like blocks and water let it through
+const blocksLight = (blockType: number): boolean =>
+  blockType !== 0 && !(BLOCK_TYPES[blockType]?.transparent ?? false);
+
+// The two channels share the flood-fill code; `shift` picks the nibble
+interface Channel {
+  shift: number;
+  sky: boolean;
+}
+const SKY: Channel = { shift: 4, sky: true };
+const BLOCK: Channel = { shift: 0, sky: false };
+
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]
+];
+
+type Cell = [number, number, number, number]; // x, y, z and a light level
+
+// Block access the engine needs from the world it lights
+export interface LightSource {
+  getBlock(x: number, y: number, z: number): number;
+}
+
+export class LightEngine {
+  private chunks = new Map<string, LightData>();
+  private source: LightSource;
+  // Chunks whose light changed during the current operation
+  private touched = new Set<string>();
+
+  constructor(source: LightSource) {
+    this.source = source;
+  }
+
+  private key(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  getChunkLight(chunkX: number, chunkZ: number): LightData | undefined {
+    return this.chunks.get(this.key(chunkX, chunkZ));
+  }
+
+  // Packed light at world coordinates; outside loaded chunks and above the world is open sky
+  getLight(x: number, y: number, z: number): number {
+    if (y >= WORLD_HEIGHT) return OPEN_SKY_LIGHT;
+    if (y < 0) return 0;
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const light = this.getChunkLight(chunkX, chunkZ);
+    if (!light) return OPEN_SKY_LIGHT;
+    return light[ChunkData.index(x - chunkX * CHUNK_SIZE, y, z - chunkZ * CHUNK_SIZE)];
+  }
+
+  private read(channel: Channel, x: number, y: number, z: number): number {
+    if (y >= WORLD_HEIGHT) return channel.sky ? MAX_LIGHT : 0;
+    if (y < 0) return 0;
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const light = this.getChunkLight(chunkX, chunkZ);
+    if (!light) return 0;
+    const packed = light[ChunkData.index(x - chunkX * CHUNK_SIZE, y, z - chunkZ * CHUNK_SIZE)];
+    return (packed >> channel.shift) & 0x0f;
+  }
+
+  // Returns false when the cell is outside the world or its chunk is not loaded
+  private write(channel: Channel, x: number, y: number, z: number, level: number): boolean {
+    if (y < 0 || y >= WORLD_HEIGHT) return false;
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const key = this.key(chunkX, chunkZ);
+    const light = this.chunks.get(key);
+    if (!light) return false;
+
+    const index = ChunkData.index(x - chunkX * CHUNK_SIZE, y, z - chunkZ * CHUNK_SIZE);
+    const mask = 0x0f << channel.shift;
+    light[index] = (light[index] & ~mask) | (level << channel.shift);
+    this.touched.add(key);
+    return true;
+  }
+
+  // Spread light outwards from every queued cell
+  private propagate(channel: Channel, queue: Cell[]): void {
+    for (let head = 0; head < queue.length; head++) {
+      const [x, y, z, level] = queue[head];
+      if (this.read(channel, x, y, z) !== level) continue; // Overwritten since it was queued
+
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        if (ny < 0 || ny >= WORLD_HEIGHT) continue;
+
+        const blockType = this.source.getBlock(nx, ny, nz);
+        if (blocksLight(blockType)) continue;
+
+        // Full sky light keeps falling through open air without fading
+        const next = channel.sky && dy === -1 && level === MAX_LIGHT && blockType === 0
+          ? MAX_LIGHT
+          : level - 1;
+        if (next > this.read(channel, nx, ny, nz) && this.write(channel, nx, ny, nz, next)) {
+          queue.push([nx, ny, nz, next]);
+        }
+      }
+    }
+  }
+
+  // Darken everything that got its light through the queued cells, already zeroed, and return
+  // the surrounding cells whose own light must flow back into the darkened area
+  private unpropagate(channel: Channel, queue: Cell[]): Cell[] {
+    const refill: Cell[] = [];
+    for (let head = 0; head < queue.length; head++) {
+      const [x, y, z, level] = queue[head];
+
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        const neighbour = this.read(channel, nx, ny, nz);
+        if (neighbour === 0) continue;
+
+        const fedByThis = neighbour < level ||
+          (channel.sky && dy === -1 && level === MAX_LIGHT && neighbour === MAX_LIGHT);
+        // Emitters keep their own block light and shine back into the hole
+        if (fedByThis && (channel.sky || getLightEmission(this.source.getBlock(nx, ny, nz)) === 0)) {
+          this.write(channel, nx, ny, nz, 0);
+          queue.push([nx, ny, nz, neighbour]);
+        } else {
+          refill.push([nx, ny, nz, neighbour]);
+        }
+      }
+    }
+    return refill;
+  }
+
+  // Light a freshly loaded chunk and let light flow between it and its loaded neighbours.
+  // Returns the keys of every chunk whose light changed.
+  addChunk(chunkX: number, chunkZ: number, data: ChunkData): string[] {
+    const light: LightData = new Uint8Array(ChunkData.VOLUME);
+    this.chunks.set(this.key(chunkX, chunkZ), light);
+    this.touched = new Set([this.key(chunkX, chunkZ)]);
+
+    // Top solid-or-transparent cell per column; open sky above it
+    const tops = new Int32Array(CHUNK_SIZE * CHUNK_SIZE).fill(-1);
+    let highest = -1;
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        let y = WORLD_HEIGHT - 1;
+        while (y >= 0 && data.get(x, y, z) === 0) {
+          light[ChunkData.index(x, y, z)] = OPEN_SKY_LIGHT;
+          y--;
+        }
+        tops[z * CHUNK_SIZE + x] = y;
+        highest = Math.max(highest, y);
+      }
+    }
+
+    // Only open-sky cells beside a taller column can light anything sideways or below
+    const sky: Cell[] = [];
+    const originX = chunkX * CHUNK_SIZE;
+    const originZ = chunkZ * CHUNK_SIZE;
+    const topAt = (x: number, z: number) =>
+      x < 0 || x >= CHUNK_SIZE || z < 0 || z >= CHUNK_SIZE ? highest : tops[z * CHUNK_SIZE + x];
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const top = tops[z * CHUNK_SIZE + x];
+        const reach = Math.max(top + 1, topAt(x + 1, z), topAt(x - 1, z), topAt(x, z + 1), topAt(x, z - 1));
+        for (let y = top + 1; y <= Math.min(reach, WORLD_HEIGHT - 1); y++) {
+          sky.push([originX + x, y, originZ + z, MAX_LIGHT]);
+        }
+      }
+    }
+
+    const emitted: Cell[] = [];
+    if (data.palette.some(blockType => getLightEmission(blockType) > 0)) {
+      data.forEachBlock((blockType, x, y, z) => {
+        const emission = getLightEmission(blockType);
+        if (emission === 0) return;
+        light[ChunkData.index(x, y, z)] |= emission;
+        emitted.push([originX + x, y, originZ + z, emission]);
+      });
+    }
+
+    // Light already in the neighbours' border cells flows in
+    const borders: Array<[number, number, number, number]> = [
+      [originX - 1, originZ, 0, 1],
+      [originX + CHUNK_SIZE, originZ, 0, 1],
+      [originX, originZ - 1, 1, 0],
+      [originX, originZ + CHUNK_SIZE, 1, 0]
+    ];
+    borders.forEach(([startX, startZ, stepX, stepZ]) => {
+      if (!this.getChunkLight(Math.floor(startX / CHUNK_SIZE), Math.floor(startZ / CHUNK_SIZE))) return;
+      for (let i = 0; i < CHUNK_SIZE; i++) {
+        const x = startX + i * stepX;
+        const z = startZ + i * stepZ;
+        for (let y = 0; y < WORLD_HEIGHT; y++) {
+          const skyLevel = this.read(SKY, x, y, z);
+          const blockLevel = this.read(BLOCK, x, y, z);
+          if (skyLevel > 1) sky.push([x, y, z, skyLevel]);
+          if (blockLevel > 1) emitted.push([x, y, z, blockLevel]);
+        }
+      }
+    });
+
+    this.propagate(SKY, sky);
+    this.propagate(BLOCK, emitted);
+    return Array.from(this.touched);
+  }
+
+  removeChunk(chunkX: number, chunkZ: number): void {
+    this.chunks.delete(this.key(chunkX, chunkZ));
+  }
+
+  clear(): void {
+    this.chunks.clear();
+  }
+
+  // Relight around a block that just changed to `blockType`.
+  // Returns the keys of every chunk whose light changed.
+  updateBlock(x: number, y: number, z: number, blockType: number): string[] {
+    this.touched = new Set();
+
+    [SKY, BLOCK].forEach(channel => {
+      const removed = this.read(channel, x, y, z);
+      let refill: Cell[] = [];
+      if (removed > 0) {
+        this.write(channel, x, y, z, 0);
+        refill = this.unpropagate(channel, [[x, y, z, removed]]);
+      }
+
+      const emission = channel.sky ? 0 : getLightEmission(blockType);
+      if (emission > 0 && this.write(channel, x, y, z, emission)) {
+        refill.push([x, y, z, emission]);
+      }
+
+      // A block that lets light through fills back up from its surroundings
+      if (!blocksLight(blockType)) {
+        NEIGHBOURS.forEach(([dx, dy, dz]) => {
+          const level = this.read(channel, x + dx, y + dy, z + dz);
+          if (level > 0) refill.push([x + dx, y + dy, z + dz, level]);
+        });
+      }
+
+      this.propagate(channel, refill);
+    });
+
+    return Array.from(this.touched);
+  }
+}
@@ -0,0 +1,38 @@
+// Define message types for worker communication
+export type MeshWorkerMessage =
+  | { type: 'BUILD_MESH', volume: ChunkVolume, options: MeshOptions, id: number };
+
+import type { ChunkVolume, MeshOptions } from './chunkMesher';
+import { buildChunkMesh, getSectionTransferables } from './chunkMesher';
+
+// Handle messages from main thread
+self.addEventListener('message', (event: MessageEvent<MeshWorkerMessage>) => {
+  const data = event.data;
+
+  try {
+    switch (data.type) {
+      case 'BUILD_MESH': {
+        const sections = buildChunkMesh(data.volume, data.options);
+        self.postMessage({
+          type: 'MESH_BUILT',
+          sections,
+          id: data.id
+        }, { transfer: getSectionTransferables(sections) });
+        break;
+      }
+    }
+  } catch (error) {
+    console.error('Error in mesh worker:', error);
+    self.postMessage({
+      type: 'ERROR',
+      error: (error as Error).message,
+      id: data.id
+    });
+  }
+});
+
+// Let main thread know worker is ready
+self.postMessage({ type: 'WORKER_READY' });
+
+// TypeScript requires this export
+export {};
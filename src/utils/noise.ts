@@ -0,0 +1,180 @@
+// Shared gradient noise - used by the stable generator, the chunk worker and its fallback
+// so every path that builds the same seed builds the same terrain.
+
+export interface FractalSettings {
+  octaves: number;
+  lacunarity: number; // Frequency multiplier per octave
+  persistence: number; // Amplitude multiplier per octave
+}
+
+export const DEFAULT_FRACTAL_SETTINGS: FractalSettings = {
+  octaves: 4,
+  lacunarity: 2,
+  persistence: 0.5
+};
+
+// Seeded 2D/3D gradient noise in roughly [-1, 1]
+export class StableNoise {
+  private perm: number[] = [];
+  private gradients: number[][] = [];
+  private gradients3D: number[][] = [];
+  
+  constructor(seed = 12345) {
+    // Initialize gradients
+    this.gradients = [
+      [1, 1], [-1, 1], [1, -1], [-1, -1],
+      [1, 0], [-1, 0], [0, 1], [0, -1]
+    ];
+    
+    // Cube edge midpoints, as in improved Perlin noise
+    this.gradients3D = [
+      [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+      [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+      [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1]
+    ];
+    
+    // Initialize permutation array
+    for (let i = 0; i < 256; i++) {
+      this.perm[i] = i;
+    }
+    
+    // Shuffle using seed for deterministic results
+    let rng = seed;
+    for (let i = 255; i > 0; i--) {
+      rng = (rng * 1664525 + 1013904223) % 4294967296;
+      const j = Math.floor((rng / 4294967296) * (i + 1));
+      [this.perm[i], this.perm[j]] = [this.perm[j], this.perm[i]];
+    }
+    
+    // Extend to 512 for wrapping
+    for (let i = 0; i < 256; i++) {
+      this.perm[i + 256] = this.perm[i];
+    }
+  }
+  
+  private fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+  }
+  
+  private lerp(a: number, b: number, t: number): number {
+    return a + t * (b - a);
+  }
+  
+  private grad(hash: number, x: number, y: number): number {
+    const gradient = this.gradients[hash & 7];
+    return gradient[0] * x + gradient[1] * y;
+  }
+  
+  private grad3D(hash: number, x: number, y: number, z: number): number {
+    const gradient = this.gradients3D[hash % 12];
+    return gradient[0] * x + gradient[1] * y + gradient[2] * z;
+  }
+  
+  noise(x: number, y: number): number {
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    
+    const u = this.fade(x);
+    const v = this.fade(y);
+    
+    const A = this.perm[X] + Y;
+    const B = this.perm[X + 1] + Y;
+    
+    return this.lerp(
+      this.lerp(
+        this.grad(this.perm[A], x, y),
+        this.grad(this.perm[B], x - 1, y),
+        u
+      ),
+      this.lerp(
+        this.grad(this.perm[A + 1], x, y - 1),
+        this.grad(this.perm[B + 1], x - 1, y - 1),
+        u
+      ),
+      v
+    );
+  }
+  
+  noise3D(x: number, y: number, z: number): number {
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+    
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+    
+    const u = this.fade(x);
+    const v = this.fade(y);
+    const w = this.fade(z);
+    
+    const A = this.perm[X] + Y;
+    const AA = this.perm[A] + Z;
+    const AB = this.perm[A + 1] + Z;
+    const B = this.perm[X + 1] + Y;
+    const BA = this.perm[B] + Z;
+    const BB = this.perm[B + 1] + Z;
+    
+    return this.lerp(
+      this.lerp(
+        this.lerp(this.grad3D(this.perm[AA], x, y, z), this.grad3D(this.perm[BA], x - 1, y, z), u),
+        this.lerp(this.grad3D(this.perm[AB], x, y - 1, z), this.grad3D(this.perm[BB], x - 1, y - 1, z), u),
+        v
+      ),
+      this.lerp(
+        this.lerp(this.grad3D(this.perm[AA + 1], x, y, z - 1), this.grad3D(this.perm[BA + 1], x - 1, y, z - 1), u),
+        this.lerp(this.grad3D(this.perm[AB + 1], x, y - 1, z - 1), this.grad3D(this.perm[BB + 1], x - 1, y - 1, z - 1), u),
+        v
+      ),
+      w
+    );
+  }
+  
+  // Fractal noise for more complex terrain; each octave multiplies frequency by
+  // `lacunarity` and amplitude by `persistence`. Output is normalised to the base range.
+  fractalNoise(
+    x: number,
+    y: number,
+    octaves = 4,
+    lacunarity = DEFAULT_FRACTAL_SETTINGS.lacunarity,
+    persistence = DEFAULT_FRACTAL_SETTINGS.persistence
+  ): number {
+    let value = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+    
+    for (let i = 0; i < octaves; i++) {
+      value += this.noise(x * frequency, y * frequency) * amplitude;
+      maxValue += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+    
+    return value / maxValue;
+  }
+
+  sample(x: number, y: number, settings: FractalSettings): number {
+    return this.fractalNoise(x, y, settings.octaves, settings.lacunarity, settings.persistence);
+  }
+
+  // 3D fractal noise with the default lacunarity and persistence, used for caves
+  fractalNoise3D(x: number, y: number, z: number, octaves = 2): number {
+    let value = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+    
+    for (let i = 0; i < octaves; i++) {
+      value += this.noise3D(x * frequency, y * frequency, z * frequency) * amplitude;
+      maxValue += amplitude;
+      amplitude *= DEFAULT_FRACTAL_SETTINGS.persistence;
+      frequency *= DEFAULT_FRACTAL_SETTINGS.lacunarity;
+    }
+    
+    return value / maxValue;
+  }
+}
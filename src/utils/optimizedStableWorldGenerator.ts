@@ -1,5 +1,7 @@
 // Optimized Stable World Generator - Performance focused
-import type { Chunk, Block } from '../types/game';
+import type { Chunk, WorldSeed } from '../types/game';
+import { ChunkData, getChunkData } from '../types/game';
+import { DEFAULT_WORLD_SEED, getUrlWorldSeed, hashSeed, mixSeed } from './seed';
 
 const CHUNK_SIZE = 16;
 const SEA_LEVEL = 32; // Reduced height
@@ -75,13 +77,15 @@ class OptimizedNoise {
   }
 }
 
-class OptimizedStableWorldGenerator {
+export class OptimizedStableWorldGenerator {
   private heightNoise: OptimizedNoise;
   private chunkCache = new Map<string, Chunk>();
+  readonly seed: WorldSeed;
   
-  constructor() {
-    console.log('🌍 OptimizedStableWorldGenerator: Initializing performance-focused terrain generator');
-    this.heightNoise = new OptimizedNoise(12345);
+  constructor(seed: WorldSeed = DEFAULT_WORLD_SEED) {
+    console.log(`🌍 OptimizedStableWorldGenerator: Initializing performance-focused terrain generator (seed ${seed})`);
+    this.seed = seed;
+    this.heightNoise = new OptimizedNoise(mixSeed(hashSeed(seed), 1));
   }
   
   generateChunk(chunkX: number, chunkZ: number): Chunk {
@@ -95,7 +99,7 @@ class OptimizedStableWorldGenerator {
     
     console.log(`⛏️  OptimizedStableWorldGenerator: Generating new chunk (${chunkX}, ${chunkZ})`);
     
-    const blocks: Block[] = [];
+    const data = new ChunkData();
     const heightMap = this.generateHeightMap(chunkX, chunkZ);
     
     // Generate only surface terrain (no deep underground)
@@ -112,22 +116,19 @@ class OptimizedStableWorldGenerator {
           const blockType = this.getBlockType(worldX, y, worldZ, height);
           
           if (blockType > 0) {
-            blocks.push({
-              type: blockType,
-              x: worldX,
-              y: y,
-              z: worldZ
-            });
+            data.set(x, y, z, blockType);
           }
         }
       }
     }
     
+    const blocks = data.toBlocks(chunkX, chunkZ);
     const chunk: Chunk = {
       x: chunkX,
       z: chunkZ,
       blocks,
       isReady: true,
+      data,
       isEmpty: blocks.length === 0
     };
     
@@ -188,12 +189,9 @@ class OptimizedStableWorldGenerator {
     
     if (!chunk) return false;
     
-    return chunk.blocks.some(block => 
-      block.x === Math.floor(x) && 
-      block.y === Math.floor(y) && 
-      block.z === Math.floor(z) &&
-      block.type > 0
-    );
+    const localX = Math.floor(x) - chunkX * CHUNK_SIZE;
+    const localZ = Math.floor(z) - chunkZ * CHUNK_SIZE;
+    return getChunkData(chunk).get(localX, Math.floor(y), localZ) > 0;
   }
   
   getChunkKey(x: number, z: number): string {
@@ -243,4 +241,4 @@ class OptimizedStableWorldGenerator {
 }
 
 // Export singleton instance
-export const optimizedStableWorldGenerator = new OptimizedStableWorldGenerator();
+export const optimizedStableWorldGenerator = new OptimizedStableWorldGenerator(getUrlWorldSeed());
@@ -1,15 +1,26 @@
 import { createNoise2D } from 'simplex-noise';
-import type { Block, Chunk } from '../types/game';
+import type { Block, Chunk, WorldSeed } from '../types/game';
 import { CHUNK_SIZE, WORLD_HEIGHT } from '../types/game';
+import { DEFAULT_WORLD_SEED, createChunkRandom, createRandom, hashSeed, mixSeed } from './seed';
 
 export class OptimizedWorldGenerator {
-  private heightNoise = createNoise2D();
-  private caveNoise = createNoise2D();
-  private treeNoise = createNoise2D();
+  private heightNoise: ReturnType<typeof createNoise2D>;
+  private caveNoise: ReturnType<typeof createNoise2D>;
+  private treeNoise: ReturnType<typeof createNoise2D>;
+  readonly seed: WorldSeed;
   private chunkCache = new Map<string, Chunk>();    // Absolutely minimal geometry limits - emergency mode
   private readonly MAX_BLOCKS_PER_CHUNK = 25; // Emergency reduction from 50
   private readonly CAVE_THRESHOLD = 0.9; // Virtually no caves
   private readonly TREE_THRESHOLD = 0.99; // Essentially no trees
+
+  constructor(seed: WorldSeed = DEFAULT_WORLD_SEED) {
+    this.seed = seed;
+    const baseSeed = hashSeed(seed);
+    this.heightNoise = createNoise2D(createRandom(mixSeed(baseSeed, 1)));
+    this.caveNoise = createNoise2D(createRandom(mixSeed(baseSeed, 2)));
+    this.treeNoise = createNoise2D(createRandom(mixSeed(baseSeed, 3)));
+  }
+
   generateChunk(chunkX: number, chunkZ: number): Chunk {
     const cacheKey = this.getChunkKey(chunkX, chunkZ);
     
@@ -19,6 +30,7 @@ export class OptimizedWorldGenerator {
     }
 
     const blockMap = new Map<string, Block>();
+    const random = createChunkRandom(this.seed, chunkX, chunkZ);
     let blockCount = 0; // Track block count for budget management
 
     for (let x = 0; x < CHUNK_SIZE; x++) {
@@ -37,7 +49,7 @@ export class OptimizedWorldGenerator {
           let blockType = 0; // Air
             // Extremely limited cave generation - almost none
           let isCave = false;
-          if (y < height - 1 && y > height - 2 && Math.random() > 0.95) { // Very narrow range, 5% chance only
+          if (y < height - 1 && y > height - 2 && random() > 0.95) { // Very narrow range, 5% chance only
             const caveValue = this.caveNoise(
               worldX * 0.05,
               worldZ * 0.05 + y * 0.05
@@ -66,11 +78,11 @@ export class OptimizedWorldGenerator {
             blockCount++;
           }
         }        // Virtually no tree generation
-        if (height > 48 && blockCount < this.MAX_BLOCKS_PER_CHUNK - 10 && Math.random() > 0.99) { // Only 1% chance
+        if (height > 48 && blockCount < this.MAX_BLOCKS_PER_CHUNK - 10 && random() > 0.99) { // Only 1% chance
           const treeValue = this.treeNoise(worldX * 0.3, worldZ * 0.3); // Even higher frequency
           if (treeValue > this.TREE_THRESHOLD) { // Extremely restrictive
             const treeSizeBefore = blockMap.size;
-            this.generateTree(blockMap, x, height + 1, z);
+            this.generateTree(blockMap, random, x, height + 1, z);
             blockCount += (blockMap.size - treeSizeBefore);
           }
         }
@@ -104,8 +116,8 @@ export class OptimizedWorldGenerator {
     
     return chunk;
   }
-  private generateTree(blockMap: Map<string, Block>, x: number, y: number, z: number): void {
-    const treeHeight = 3 + Math.floor(Math.random() * 2); // Shorter trees (3-4 blocks)
+  private generateTree(blockMap: Map<string, Block>, random: () => number, x: number, y: number, z: number): void {
+    const treeHeight = 3 + Math.floor(random() * 2); // Shorter trees (3-4 blocks)
 
     // Tree trunk
     for (let i = 0; i < treeHeight; i++) {
@@ -129,7 +141,7 @@ export class OptimizedWorldGenerator {
           
           // Much more restrictive leaf placement
           const distance = Math.abs(dx) + Math.abs(dz) + Math.abs(dy);
-          if (distance <= 2 && Math.random() > 0.4) { // Fewer leaves
+          if (distance <= 2 && random() > 0.4) { // Fewer leaves
             const leafX = x + dx;
             const leafY = leavesY + dy;
             const leafZ = z + dz;
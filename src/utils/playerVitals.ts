@@ -0,0 +1,118 @@
+// Survival stats - health, hunger, air and the rules that drain and restore them.
+// Health and hunger are counted in halves: 20 health is ten hearts, 20 hunger ten drumsticks.
+import type { FoodStats } from '../types/game';
+import { BLOCK_TYPES } from '../types/game';
+import { getFluid } from './fluids';
+
+export const MAX_HEALTH = 20;
+export const MAX_HUNGER = 20;
+export const VITALS_TICK_SECONDS = 0.5;
+
+const SAFE_FALL_DISTANCE = 3; // Blocks
+const EXHAUSTION_PER_HUNGER = 4;
+const FOOD_INTERVAL = 4; // Seconds between regeneration or starvation steps
+const REGENERATION_HUNGER = 18; // Health regenerates at or above this much hunger
+const REGENERATION_EXHAUSTION = 6;
+const STARVATION_MIN_HEALTH = 1; // Starving hurts but never kills
+const SPRINT_MIN_HUNGER = 6;
+const SUFFOCATION_DAMAGE = 1; // Per tick
+export const MAX_AIR = 15; // Seconds of breath under water
+const AIR_REFILL = 7.5; // Breath regained per tick with the head out of water
+const DROWNING_DAMAGE = 1; // Per tick once out of air
+const LAVA_DAMAGE = 2; // Per tick while touching lava
+
+// Exhaustion costs, in the same units as EXHAUSTION_PER_HUNGER
+export const SPRINT_EXHAUSTION = 0.1; // Per block sprinted
+export const JUMP_EXHAUSTION = 0.05;
+export const SPRINT_JUMP_EXHAUSTION = 0.2;
+
+export interface Vitals {
+  health: number;
+  hunger: number;
+  exhaustion: number; // Every EXHAUSTION_PER_HUNGER of it costs one hunger point
+  foodTimer: number; // Seconds towards the next regeneration or starvation step
+  air: number; // Seconds of breath left, refilled as soon as the head is out of water
+}
+
+export function createVitals(health = MAX_HEALTH, hunger = MAX_HUNGER): Vitals {
+  return { health, hunger, exhaustion: 0, foodTimer: 0, air: MAX_AIR };
+}
+
+export const isDead = (vitals: Vitals): boolean => vitals.health <= 0;
+
+export const canSprint = (vitals: Vitals): boolean => vitals.hunger > SPRINT_MIN_HUNGER;
+
+// One point per block fallen past the safe height, where the height is recovered from the
+// speed at impact under constant `gravity`
+export function getFallDamage(impactSpeed: number, gravity: number): number {
+  const fallDistance = impactSpeed * impactSpeed / (2 * Math.abs(gravity));
+  return Math.max(0, Math.round(fallDistance - SAFE_FALL_DISTANCE));
+}
+
+// Opaque blocks suffocate a player whose head is inside them; leaves, saplings and fluids do not
+export function suffocatesIn(blockType: number): boolean {
+  return blockType > 0 && !getFluid(blockType) && !BLOCK_TYPES[blockType]?.transparent;
+}
+
+export function damage(vitals: Vitals, amount: number): Vitals {
+  if (amount <= 0) return vitals;
+  return { ...vitals, health: Math.max(0, vitals.health - amount) };
+}
+
+export function addExhaustion(vitals: Vitals, amount: number): Vitals {
+  if (amount <= 0) return vitals;
+
+  let { hunger, exhaustion } = vitals;
+  exhaustion += amount;
+  while (exhaustion >= EXHAUSTION_PER_HUNGER && hunger > 0) {
+    exhaustion -= EXHAUSTION_PER_HUNGER;
+    hunger--;
+  }
+  // An empty stomach cannot go lower, so stop the meter from growing without bound
+  return { ...vitals, hunger, exhaustion: Math.min(exhaustion, EXHAUSTION_PER_HUNGER) };
+}
+
+// Full players can only eat food that heals
+export function canEat(vitals: Vitals, food: FoodStats): boolean {
+  return vitals.hunger < MAX_HUNGER || (!!food.heal && vitals.health < MAX_HEALTH);
+}
+
+export function eat(vitals: Vitals, food: FoodStats): Vitals {
+  return {
+    ...vitals,
+    hunger: Math.min(MAX_HUNGER, vitals.hunger + food.hunger),
+    health: Math.min(MAX_HEALTH, vitals.health + (food.heal ?? 0)),
+    exhaustion: 0
+  };
+}
+
+// Breath runs out with the head under water and drowning hurts every tick after that
+const breathe = (vitals: Vitals, headBlock: number): Vitals => {
+  if (getFluid(headBlock) !== 'water') {
+    return vitals.air < MAX_AIR ? { ...vitals, air: Math.min(MAX_AIR, vitals.air + AIR_REFILL) } : vitals;
+  }
+  const air = Math.max(0, vitals.air - VITALS_TICK_SECONDS);
+  return air > 0 ? { ...vitals, air } : damage({ ...vitals, air }, DROWNING_DAMAGE);
+};
+
+// Advance by one VITALS_TICK_SECONDS step: suffocation, drowning and burning every tick, and
+// every FOOD_INTERVAL either regeneration when well fed or starvation when empty.
+// `feetBlock` is the block around the player's legs.
+export function tickVitals(vitals: Vitals, headBlock: number, feetBlock = 0): Vitals {
+  let next = suffocatesIn(headBlock) ? damage(vitals, SUFFOCATION_DAMAGE) : vitals;
+  next = breathe(next, headBlock);
+  if (getFluid(headBlock) === 'lava' || getFluid(feetBlock) === 'lava') next = damage(next, LAVA_DAMAGE);
+  if (isDead(next)) return next;
+
+  const foodTimer = next.foodTimer + VITALS_TICK_SECONDS;
+  if (foodTimer < FOOD_INTERVAL) return { ...next, foodTimer };
+  next = { ...next, foodTimer: 0 };
+
+  if (next.hunger >= REGENERATION_HUNGER && next.health < MAX_HEALTH) {
+    return addExhaustion({ ...next, health: next.health + 1 }, REGENERATION_EXHAUSTION);
+  }
+  if (next.hunger === 0 && next.health > STARVATION_MIN_HEALTH) {
+    return damage(next, 1);
+  }
+  return next;
+}
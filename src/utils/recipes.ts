@@ -0,0 +1,171 @@
+// Crafting recipes - declarative shaped and shapeless recipes and a registry that matches them
+// against a crafting grid. Grids are row-major arrays of slots, 2×2 in the inventory, 3×3 on a table.
+import type { InventorySlot, ItemStack } from '../types/game';
+import { BLOCKS, ITEMS, getItemType } from '../types/game';
+
+const { LOG: WOOD, IRON_ORE, GOLD_ORE, PLANKS, COBBLESTONE, TORCH, CRAFTING_TABLE } = BLOCKS;
+
+// Pattern rows are strings; each character maps to an item through `key`, spaces are empty cells.
+// Patterns are matched anywhere in the grid and also mirrored left to right.
+export interface ShapedRecipe {
+  type: 'shaped';
+  id: string;
+  pattern: string[];
+  key: Record<string, number>;
+  result: ItemStack;
+}
+
+// Ingredients may sit in any cells
+export interface ShapelessRecipe {
+  type: 'shapeless';
+  id: string;
+  ingredients: number[];
+  result: ItemStack;
+}
+
+export type Recipe = ShapedRecipe | ShapelessRecipe;
+
+// Width of the smallest grid the recipe fits in
+export function getRecipeSize(recipe: Recipe): number {
+  if (recipe.type === 'shapeless') return recipe.ingredients.length <= 4 ? 2 : 3;
+  return Math.max(recipe.pattern.length, ...recipe.pattern.map(row => row.length));
+}
+
+// Item ids of a shaped pattern as rows of cells; 0 marks an empty cell
+const patternCells = (recipe: ShapedRecipe): number[][] => {
+  const width = Math.max(...recipe.pattern.map(row => row.length));
+  return recipe.pattern.map(row =>
+    Array.from({ length: width }, (_, x) => (row[x] && row[x] !== ' ' ? recipe.key[row[x]] : 0))
+  );
+};
+
+// Crop a square grid to the rows and columns that hold items
+const trimGrid = (grid: InventorySlot[], size: number): number[][] => {
+  const rows = Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => grid[y * size + x]?.itemId ?? 0)
+  );
+  const usedRows = rows.map((row, y) => (row.some(id => id > 0) ? y : -1)).filter(y => y >= 0);
+  const usedColumns = Array.from({ length: size }, (_, x) => x).filter(x => rows.some(row => row[x] > 0));
+  if (usedRows.length === 0) return [];
+
+  return rows
+    .slice(usedRows[0], usedRows[usedRows.length - 1] + 1)
+    .map(row => row.slice(usedColumns[0], usedColumns[usedColumns.length - 1] + 1));
+};
+
+const sameCells = (a: number[][], b: number[][]): boolean =>
+  a.length === b.length && a.every((row, y) => row.length === b[y].length && row.every((id, x) => id === b[y][x]));
+
+const matches = (recipe: Recipe, grid: InventorySlot[], size: number): boolean => {
+  if (getRecipeSize(recipe) > size) return false;
+
+  if (recipe.type === 'shapeless') {
+    const items = grid.filter((slot): slot is ItemStack => slot !== null).map(slot => slot.itemId).sort();
+    const needed = [...recipe.ingredients].sort();
+    return items.length === needed.length && items.every((id, i) => id === needed[i]);
+  }
+
+  const trimmed = trimGrid(grid, size);
+  const pattern = patternCells(recipe);
+  return sameCells(trimmed, pattern) || sameCells(trimmed, pattern.map(row => [...row].reverse()));
+};
+
+export class RecipeRegistry {
+  private recipes = new Map<string, Recipe>();
+
+  register(recipe: Recipe): void {
+    if (this.recipes.has(recipe.id)) {
+      throw new Error(`Recipe "${recipe.id}" is already registered`);
+    }
+    this.recipes.set(recipe.id, recipe);
+  }
+
+  getAll(): Recipe[] {
+    return Array.from(this.recipes.values());
+  }
+
+  // First recipe the grid contents match, if any
+  findMatch(grid: InventorySlot[], size: number): Recipe | null {
+    for (const recipe of this.recipes.values()) {
+      if (matches(recipe, grid, size)) return recipe;
+    }
+    return null;
+  }
+
+  // Recipes whose result name contains the query, ignoring case
+  search(query: string): Recipe[] {
+    const needle = query.trim().toLowerCase();
+    return this.getAll().filter(recipe =>
+      (getItemType(recipe.result.itemId)?.name ?? '').toLowerCase().includes(needle)
+    );
+  }
+}
+
+// Use up one item from every occupied cell
+export function consumeIngredients(grid: InventorySlot[]): InventorySlot[] {
+  return grid.map(slot => (slot && slot.count > 1 ? { ...slot, count: slot.count - 1 } : null));
+}
+
+const toolRecipes = (material: number, pickaxe: number, axe: number, shovel: number, name: string): Recipe[] => [
+  {
+    type: 'shaped',
+    id: `${name}_pickaxe`,
+    pattern: ['MMM', ' S ', ' S '],
+    key: { M: material, S: ITEMS.STICK },
+    result: { itemId: pickaxe, count: 1 }
+  },
+  {
+    type: 'shaped',
+    id: `${name}_axe`,
+    pattern: ['MM', 'MS', ' S'],
+    key: { M: material, S: ITEMS.STICK },
+    result: { itemId: axe, count: 1 }
+  },
+  {
+    type: 'shaped',
+    id: `${name}_shovel`,
+    pattern: ['M', 'S', 'S'],
+    key: { M: material, S: ITEMS.STICK },
+    result: { itemId: shovel, count: 1 }
+  }
+];
+
+export const RECIPES: Recipe[] = [
+  { type: 'shapeless', id: 'planks', ingredients: [WOOD], result: { itemId: PLANKS, count: 4 } },
+  {
+    type: 'shaped',
+    id: 'sticks',
+    pattern: ['P', 'P'],
+    key: { P: PLANKS },
+    result: { itemId: ITEMS.STICK, count: 4 }
+  },
+  {
+    type: 'shaped',
+    id: 'crafting_table',
+    pattern: ['PP', 'PP'],
+    key: { P: PLANKS },
+    result: { itemId: CRAFTING_TABLE, count: 1 }
+  },
+  // There is no furnace yet, so ore is worked straight into ingots
+  { type: 'shapeless', id: 'iron_ingot', ingredients: [IRON_ORE], result: { itemId: ITEMS.IRON_INGOT, count: 1 } },
+  {
+    type: 'shaped',
+    id: 'torches',
+    pattern: ['C', 'S'],
+    key: { C: ITEMS.COAL, S: ITEMS.STICK },
+    result: { itemId: TORCH, count: 4 }
+  },
+  {
+    type: 'shaped',
+    id: 'golden_apple',
+    pattern: ['GGG', 'GAG', 'GGG'],
+    key: { G: GOLD_ORE, A: ITEMS.APPLE },
+    result: { itemId: ITEMS.GOLDEN_APPLE, count: 1 }
+  },
+  ...toolRecipes(PLANKS, ITEMS.WOODEN_PICKAXE, ITEMS.WOODEN_AXE, ITEMS.WOODEN_SHOVEL, 'wooden'),
+  ...toolRecipes(COBBLESTONE, ITEMS.STONE_PICKAXE, ITEMS.STONE_AXE, ITEMS.STONE_SHOVEL, 'stone'),
+  ...toolRecipes(ITEMS.IRON_INGOT, ITEMS.IRON_PICKAXE, ITEMS.IRON_AXE, ITEMS.IRON_SHOVEL, 'iron')
+];
+
+export const recipeRegistry = new RecipeRegistry();
+RECIPES.forEach(recipe => recipeRegistry.register(recipe));
@@ -0,0 +1,58 @@
+// World seeds - every generator derives its randomness from a WorldSeed
+import type { WorldSeed } from '../types/game';
+
+export const DEFAULT_WORLD_SEED: WorldSeed = 12345;
+
+// Reduce any seed to an unsigned 32-bit integer.
+// Numeric strings hash like the number they spell so "42" and 42 share a world.
+export function hashSeed(seed: WorldSeed): number {
+  const text = String(seed).trim();
+
+  if (/^-?\d+$/.test(text)) {
+    const value = Number(text);
+    if (Number.isSafeInteger(value)) return value >>> 0;
+  }
+
+  // FNV-1a over UTF-16 code units
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Combine a base seed with integers (noise channel, chunk coordinates, ...) into a new seed
+export function mixSeed(seed: number, ...values: number[]): number {
+  let hash = seed >>> 0;
+  values.forEach(value => {
+    hash = Math.imul(hash ^ (value | 0), 0x9E3779B1);
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85EBCA6B);
+    hash ^= hash >>> 13;
+  });
+  return hash >>> 0;
+}
+
+// Mulberry32: small, fast and identical on every JS engine
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Per-chunk random stream, independent of generation order
+export function createChunkRandom(seed: WorldSeed, chunkX: number, chunkZ: number): () => number {
+  return createRandom(mixSeed(hashSeed(seed), chunkX, chunkZ));
+}
+
+// Seed requested through `?seed=` so bug reports can link straight to a world
+export function getUrlWorldSeed(): WorldSeed {
+  if (typeof window === 'undefined') return DEFAULT_WORLD_SEED;
+  return new URLSearchParams(window.location.search).get('seed') || DEFAULT_WORLD_SEED;
+}
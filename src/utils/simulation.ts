@@ -0,0 +1,103 @@
+// Fixed-timestep simulation clock. Render frames feed real time into an accumulator and the
+// game advances in whole ticks of 1 / tickRate seconds, so physics behaves the same at any
+// frame rate. The leftover fraction (`alpha`) lets renderers interpolate between the last two
+// ticks. The tick counter doubles as world time.
+
+export const MIN_TICK_RATE = 20;
+export const MAX_TICK_RATE = 60;
+export const DEFAULT_TICK_RATE = 30;
+// After a long stall (tab switch, GC pause) at most this many ticks are replayed; the rest of
+// the backlog is dropped so the game slows down instead of freezing to catch up
+export const MAX_CATCH_UP_TICKS = 5;
+
+// Listeners run in ascending phase order every tick
+export const TICK_PHASE = {
+  PLAYER: 0,
+  ENTITIES: 1,
+  BLOCKS: 2
+} as const;
+
+export type TickListener = (tick: number, seconds: number) => void;
+
+interface Subscription {
+  listener: TickListener;
+  phase: number;
+}
+
+export class Simulation {
+  private subscriptions: Subscription[] = [];
+  private accumulator = 0;
+  private rate = DEFAULT_TICK_RATE;
+  private ticks = 0;
+
+  // Ticks since the world was created
+  get tick(): number {
+    return this.ticks;
+  }
+
+  get tickRate(): number {
+    return this.rate;
+  }
+
+  get tickSeconds(): number {
+    return 1 / this.rate;
+  }
+
+  // How far render time is between the previous tick and the current one, 0-1
+  get alpha(): number {
+    return this.accumulator / this.tickSeconds;
+  }
+
+  setTickRate(rate: number): void {
+    this.rate = Math.min(MAX_TICK_RATE, Math.max(MIN_TICK_RATE, rate));
+    this.accumulator = 0;
+  }
+
+  // Start counting from a saved world time
+  reset(tick = 0): void {
+    this.ticks = tick;
+    this.accumulator = 0;
+  }
+
+  // Feed one render frame's worth of real time; returns the number of ticks run
+  advance(frameSeconds: number): number {
+    this.accumulator += Math.max(0, frameSeconds);
+
+    let steps = 0;
+    while (this.accumulator >= this.tickSeconds && steps < MAX_CATCH_UP_TICKS) {
+      this.accumulator -= this.tickSeconds;
+      this.step();
+      steps++;
+    }
+    // Drop whatever could not be caught up, keeping only the fraction towards the next tick
+    if (this.accumulator >= this.tickSeconds) {
+      this.accumulator %= this.tickSeconds;
+    }
+    return steps;
+  }
+
+  // Run exactly one tick, e.g. for replays and tests
+  step(): void {
+    this.ticks++;
+    const seconds = this.tickSeconds;
+    this.subscriptions.forEach(({ listener }) => {
+      try {
+        listener(this.ticks, seconds);
+      } catch (error) {
+        console.error('❌ Simulation: Tick listener failed:', error);
+      }
+    });
+  }
+
+  // Register for ticks; returns an unsubscribe function
+  subscribe(listener: TickListener, phase: number = TICK_PHASE.ENTITIES): () => void {
+    const subscription = { listener, phase };
+    this.subscriptions = [...this.subscriptions, subscription].sort((a, b) => a.phase - b.phase);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(other => other !== subscription);
+    };
+  }
+}
+
+// Shared clock for the stable game mode
+export const simulation = new Simulation();
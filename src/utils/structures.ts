@@ -0,0 +1,293 @@
+// Structure placement - features (trees, boulders, huts) are planned per chunk from the seed
+// and may spill into neighbouring chunks. Blocks bound for a chunk wait in a pending-writes
+// queue until that chunk generates, so borders never slice a structure in half.
+import type { ChunkData } from '../types/game';
+import { BLOCKS, CHUNK_SIZE } from '../types/game';
+import type { BiomeDefinition } from './biomes';
+import { createRandom, mixSeed } from './seed';
+
+// Offset from the template anchor
+export interface StructureBlock {
+  x: number;
+  y: number;
+  z: number;
+  blockType: number; // 0 clears the cell when the template replaces solid blocks
+}
+
+// Quarter turns clockwise around the anchor, seen from above
+export type StructureRotation = 0 | 1 | 2 | 3;
+
+export interface StructureTemplate {
+  id: string;
+  name: string;
+  blocks: StructureBlock[];
+  replaceSolid: boolean; // Buildings carve into terrain; trees and boulders only fill air
+}
+
+export interface StructurePlacement {
+  template: StructureTemplate;
+  x: number; // World position of the anchor
+  y: number;
+  z: number;
+  rotation: StructureRotation;
+}
+
+export interface StructureDefinition {
+  id: string;
+  name: string;
+  anchor?: [number, number, number]; // Layer coordinates placed at the placement position
+  replaceSolid?: boolean;
+  legend: Record<string, number>; // Characters missing from the legend leave the cell untouched
+  layers: string[][]; // Bottom to top; each layer is rows along z of characters along x
+}
+
+// Build a template from a picture of its layers
+export function defineStructure(definition: StructureDefinition): StructureTemplate {
+  const [anchorX, anchorY, anchorZ] = definition.anchor ?? [0, 0, 0];
+  const blocks: StructureBlock[] = [];
+
+  definition.layers.forEach((rows, y) => {
+    rows.forEach((row, z) => {
+      Array.from(row).forEach((symbol, x) => {
+        const blockType = definition.legend[symbol];
+        if (blockType === undefined) return;
+        blocks.push({ x: x - anchorX, y: y - anchorY, z: z - anchorZ, blockType });
+      });
+    });
+  });
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    blocks,
+    replaceSolid: definition.replaceSolid ?? false
+  };
+}
+
+export function rotateOffset(x: number, z: number, rotation: StructureRotation): [number, number] {
+  switch (rotation) {
+    case 1: return [-z, x];
+    case 2: return [-x, -z];
+    case 3: return [z, -x];
+    default: return [x, z];
+  }
+}
+
+const TREE_LEGEND = { W: BLOCKS.LOG, L: BLOCKS.LEAVES };
+
+export const STRUCTURES: Record<string, StructureTemplate> = {
+  oak_tree: defineStructure({
+    id: 'oak_tree',
+    name: 'Oak Tree',
+    anchor: [2, 0, 2],
+    legend: TREE_LEGEND,
+    layers: [
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      [' LLL ', 'LLLLL', 'LLWLL', 'LLLLL', ' LLL '],
+      [' LLL ', 'LLLLL', 'LLWLL', 'LLLLL', ' LLL '],
+      ['     ', ' LLL ', ' LWL ', ' LLL ', '     '],
+      ['     ', '  L  ', ' LLL ', '  L  ', '     ']
+    ]
+  }),
+  tall_oak_tree: defineStructure({
+    id: 'tall_oak_tree',
+    name: 'Tall Oak Tree',
+    anchor: [2, 0, 2],
+    legend: TREE_LEGEND,
+    layers: [
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', ' LLL ', ' LWL ', ' LLL ', '     '],
+      [' LLL ', 'LLLLL', 'LLWLL', 'LLLLL', ' LLL '],
+      [' LLL ', 'LLLLL', 'LLWLL', 'LLLLL', ' LLL '],
+      ['     ', ' LLL ', ' LWL ', ' LLL ', '     '],
+      ['     ', '  L  ', ' LLL ', '  L  ', '     ']
+    ]
+  }),
+  spruce_tree: defineStructure({
+    id: 'spruce_tree',
+    name: 'Spruce Tree',
+    anchor: [2, 0, 2],
+    legend: TREE_LEGEND,
+    layers: [
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      [' LLL ', 'LLLLL', 'LLWLL', 'LLLLL', ' LLL '],
+      ['     ', '  L  ', ' LWL ', '  L  ', '     '],
+      ['     ', ' LLL ', ' LWL ', ' LLL ', '     '],
+      ['     ', '     ', '  W  ', '     ', '     '],
+      ['     ', '  L  ', ' LWL ', '  L  ', '     '],
+      ['     ', '     ', '  L  ', '     ', '     ']
+    ]
+  }),
+  boulder: defineStructure({
+    id: 'boulder',
+    name: 'Boulder',
+    anchor: [1, 1, 1],
+    legend: { S: BLOCKS.STONE },
+    layers: [
+      [' S ', 'SSS', ' S '],
+      ['SS ', 'SSS', ' SS'],
+      ['   ', ' S ', '   ']
+    ]
+  }),
+  hut: defineStructure({
+    id: 'hut',
+    name: 'Hut',
+    anchor: [2, 1, 2],
+    replaceSolid: true,
+    legend: { S: BLOCKS.STONE, W: BLOCKS.LOG, _: BLOCKS.AIR },
+    layers: [
+      ['SSSSS', 'SSSSS', 'SSSSS', 'SSSSS', 'SSSSS'],
+      ['WWWWW', 'W___W', 'W___W', 'W___W', 'WW_WW'],
+      ['WWWWW', 'W___W', '____W', 'W___W', 'WW_WW'],
+      ['WWWWW', 'W___W', 'W___W', 'W___W', 'WWWWW'],
+      ['WWWWW', 'WWWWW', 'WWWWW', 'WWWWW', 'WWWWW']
+    ]
+  })
+};
+
+// Terrain queries a generator answers without building the chunk
+export interface FeatureTerrain {
+  getBiome(x: number, z: number): BiomeDefinition;
+  getSurfaceHeight(x: number, z: number): number;
+}
+
+// Roll each column against its biome's feature table; structures sit on the surface.
+// `baseSeed` is the hashed world seed, so the plan depends only on the chunk position.
+export function planBiomeFeatures(
+  terrain: FeatureTerrain,
+  baseSeed: number,
+  chunkX: number,
+  chunkZ: number
+): StructurePlacement[] {
+  const random = createRandom(mixSeed(baseSeed, 300, chunkX, chunkZ));
+  const placements: StructurePlacement[] = [];
+
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const worldX = chunkX * CHUNK_SIZE + x;
+      const worldZ = chunkZ * CHUNK_SIZE + z;
+      const biome = terrain.getBiome(worldX, worldZ);
+
+      for (const feature of biome.features) {
+        if (random() >= feature.density) continue;
+
+        const id = feature.structures[Math.floor(random() * feature.structures.length)];
+        placements.push({
+          template: STRUCTURES[id],
+          x: worldX,
+          y: terrain.getSurfaceHeight(worldX, worldZ) + 1,
+          z: worldZ,
+          rotation: Math.floor(random() * 4) as StructureRotation
+        });
+        break; // One feature per column
+      }
+    }
+  }
+
+  return placements;
+}
+
+export type FeaturePlanner = (chunkX: number, chunkZ: number) => StructurePlacement[];
+
+interface PendingWrite {
+  x: number; // Local to the target chunk
+  y: number;
+  z: number;
+  blockType: number;
+  replaceSolid: boolean;
+  order: number; // Position in the source chunk's plan
+  sourceX: number;
+  sourceZ: number;
+}
+
+// Leaves never overwrite anything; trunks may grow through another tree's leaves
+const canWrite = (write: PendingWrite, existing: number): boolean =>
+  write.replaceSolid || existing === 0 || (existing === BLOCKS.LEAVES && write.blockType !== BLOCKS.LEAVES);
+
+export class StructurePlacer {
+  private pending = new Map<string, PendingWrite[]>();
+  private planned = new Set<string>();
+  private planFeatures: FeaturePlanner;
+
+  constructor(planFeatures: FeaturePlanner) {
+    this.planFeatures = planFeatures;
+  }
+
+  // Chunks that still have writes waiting for them
+  get pendingChunkCount(): number {
+    return this.pending.size;
+  }
+
+  // Plan the chunk and its neighbours, then apply every write queued for the chunk.
+  // A structure reaches at most one chunk past its own, so by the time a chunk
+  // generates every structure that can touch it has been planned.
+  decorate(data: ChunkData, chunkX: number, chunkZ: number): void {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        this.plan(chunkX + dx, chunkZ + dz);
+      }
+    }
+
+    const key = this.getChunkKey(chunkX, chunkZ);
+    const writes = this.pending.get(key);
+    if (!writes) return;
+    this.pending.delete(key);
+
+    // Apply in a fixed order so overlapping structures resolve the same way
+    // regardless of which neighbour happened to be planned first
+    writes
+      .sort((a, b) => a.sourceX - b.sourceX || a.sourceZ - b.sourceZ || a.order - b.order)
+      .forEach(write => {
+        if (canWrite(write, data.get(write.x, write.y, write.z))) {
+          data.set(write.x, write.y, write.z, write.blockType);
+        }
+      });
+  }
+
+  private plan(chunkX: number, chunkZ: number): void {
+    const key = this.getChunkKey(chunkX, chunkZ);
+    if (this.planned.has(key)) return;
+    this.planned.add(key);
+
+    let order = 0;
+    this.planFeatures(chunkX, chunkZ).forEach(placement => {
+      placement.template.blocks.forEach(block => {
+        const [offsetX, offsetZ] = rotateOffset(block.x, block.z, placement.rotation);
+        const x = placement.x + offsetX;
+        const z = placement.z + offsetZ;
+        const targetX = Math.floor(x / CHUNK_SIZE);
+        const targetZ = Math.floor(z / CHUNK_SIZE);
+
+        // Anything farther would land in a chunk that may already be generated
+        if (Math.abs(targetX - chunkX) > 1 || Math.abs(targetZ - chunkZ) > 1) return;
+
+        const targetKey = this.getChunkKey(targetX, targetZ);
+        let writes = this.pending.get(targetKey);
+        if (!writes) {
+          writes = [];
+          this.pending.set(targetKey, writes);
+        }
+        writes.push({
+          x: x - targetX * CHUNK_SIZE,
+          y: placement.y + block.y,
+          z: z - targetZ * CHUNK_SIZE,
+          blockType: block.blockType,
+          replaceSolid: placement.template.replaceSolid,
+          order: order++,
+          sourceX: chunkX,
+          sourceZ: chunkZ
+        });
+      });
+    });
+  }
+
+  private getChunkKey(x: number, z: number): string {
+    return `${x},${z}`;
+  }
+}
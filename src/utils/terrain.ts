@@ -0,0 +1,53 @@
+// Terrain stage shared by the main-thread StableWorldGenerator and the worker's ChunkGenerator.
+// Both shape their surface and flood it with the functions here, so one seed yields the same
+// chunks on either side. Saves only store edited chunks, so changing the shape changes existing worlds.
+import type { ChunkData } from '../types/game';
+import { BLOCKS, CHUNK_SIZE } from '../types/game';
+import type { FractalSettings, StableNoise } from './noise';
+import type { BiomeColumn } from './biomes';
+import type { StructurePlacement } from './structures';
+
+export const SEA_LEVEL = 32;
+export const MIN_HEIGHT = 20; // Minimum terrain height
+export const MAX_HEIGHT = 80; // Maximum terrain height - leaves room for mountain biomes
+
+// Noise shape per feature; trees and buildings come from the biome feature tables
+export interface TerrainNoiseSettings {
+  height: FractalSettings;
+}
+
+export const DEFAULT_TERRAIN_SETTINGS: TerrainNoiseSettings = {
+  height: { octaves: 1, lacunarity: 2, persistence: 0.5 }
+};
+
+// Biome stage supplies the blended base shape, local noise adds detail
+export function getSurfaceHeight(
+  noise: StableNoise,
+  column: BiomeColumn,
+  x: number,
+  z: number,
+  settings: TerrainNoiseSettings = DEFAULT_TERRAIN_SETTINGS
+): number {
+  const detailNoise = noise.sample(x * 0.02, z * 0.02, settings.height);
+  const height = SEA_LEVEL + column.heightOffset + detailNoise * 2;
+  return Math.max(MIN_HEIGHT, Math.min(MAX_HEIGHT, Math.floor(height)));
+}
+
+// Flood every column below sea level with still water; grass under it turns to sand.
+// `heights` is indexed [x][z] in chunk-local columns.
+export function fillSea(data: ChunkData, heights: number[][]): void {
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const height = heights[x][z];
+      if (height >= SEA_LEVEL) continue;
+
+      if (data.get(x, height, z) === BLOCKS.GRASS) data.set(x, height, z, BLOCKS.SAND);
+      for (let y = height + 1; y <= SEA_LEVEL; y++) {
+        data.set(x, y, z, BLOCKS.WATER);
+      }
+    }
+  }
+}
+
+// Nothing grows on the sea floor
+export const isAboveSea = (placement: StructurePlacement): boolean => placement.y > SEA_LEVEL;
@@ -0,0 +1,105 @@
+// Block texture atlas layout. Every texture a BLOCK_TYPES entry references is packed into one
+// power-of-two image so chunks draw with a single texture. The layout is a pure function of
+// BLOCK_TYPES, so the mesh worker and the renderer (see blockAtlasTexture) agree on it without
+// sharing state, and a new block type only needs its entry in src/data/blocks.json.
+import type { BlockType } from '../types/game';
+import { BLOCK_TYPES } from '../types/game';
+
+export type BlockFace = 'top' | 'side' | 'bottom';
+
+const FACES: BlockFace[] = ['top', 'side', 'bottom'];
+
+// Region of the atlas in UV space: 0-1 with v pointing up, as WebGL samples it
+export interface AtlasRect {
+  u: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+// Where a texture's pixels go, in canvas pixels from the top left
+export interface AtlasTile {
+  texture: string;
+  x: number;
+  y: number;
+}
+
+export interface AtlasLayout {
+  size: number; // Edge length in pixels, a power of two
+  tileSize: number;
+  padding: number;
+  tiles: AtlasTile[];
+  rects: Map<string, AtlasRect>; // By texture path
+}
+
+export const ATLAS_TILE_SIZE = 16; // Every block texture is drawn at 16x16
+// Each tile's edge pixels are repeated this far outwards so filtering and rounding at a tile's
+// border sample the tile itself instead of its neighbour
+export const ATLAS_PADDING = 2;
+const MAX_ATLAS_SIZE = 4096;
+
+// Reserved tile for block ids without textures and textures that fail to load
+export const MISSING_TEXTURE = 'missing';
+
+export const getBlockTexture = (blockType: BlockType, face: BlockFace): string =>
+  face === 'top' ? blockType.textureTop : face === 'bottom' ? blockType.textureBottom : blockType.textureSide;
+
+// Which texture a face shows, from the axis it faces along (0 x, 1 y, 2 z)
+export const getFaceForAxis = (axis: number, positive: boolean): BlockFace =>
+  axis !== 1 ? 'side' : positive ? 'top' : 'bottom';
+
+// Every texture shown on a block face, once each, in BLOCK_TYPES order; air draws nothing
+export function collectBlockTextures(blockTypes: BlockType[] = BLOCK_TYPES): string[] {
+  const textures = new Set<string>();
+  blockTypes.forEach(blockType => {
+    if (blockType.id === 0) return;
+    FACES.forEach(face => textures.add(getBlockTexture(blockType, face)));
+  });
+  return Array.from(textures);
+}
+
+// Lay equal-sized tiles out on a grid in the smallest square power-of-two image that fits them
+export function packAtlas(textures: string[], tileSize = ATLAS_TILE_SIZE, padding = ATLAS_PADDING): AtlasLayout {
+  const cell = tileSize + padding * 2;
+  const all = [MISSING_TEXTURE, ...textures.filter(texture => texture !== MISSING_TEXTURE)];
+
+  let size = 1;
+  while (Math.floor(size / cell) ** 2 < all.length) {
+    size *= 2;
+    if (size > MAX_ATLAS_SIZE) {
+      throw new Error(`Texture atlas needs more than ${MAX_ATLAS_SIZE}px for ${all.length} textures`);
+    }
+  }
+
+  const columns = Math.floor(size / cell);
+  const tiles: AtlasTile[] = [];
+  const rects = new Map<string, AtlasRect>();
+  all.forEach((texture, index) => {
+    const x = (index % columns) * cell + padding;
+    const y = Math.floor(index / columns) * cell + padding;
+    tiles.push({ texture, x, y });
+    rects.set(texture, {
+      u: x / size,
+      v: 1 - (y + tileSize) / size, // Canvas rows run down, UVs up
+      width: tileSize / size,
+      height: tileSize / size
+    });
+  });
+
+  return { size, tileSize, padding, tiles, rects };
+}
+
+let blockAtlas: AtlasLayout | null = null;
+
+// The atlas for BLOCK_TYPES, packed on first use
+export function getBlockAtlas(): AtlasLayout {
+  if (!blockAtlas) blockAtlas = packAtlas(collectBlockTextures());
+  return blockAtlas;
+}
+
+// Atlas region for one face of a block type
+export function getBlockFaceRect(blockType: number, face: BlockFace): AtlasRect {
+  const { rects } = getBlockAtlas();
+  const type = BLOCK_TYPES[blockType];
+  return (type && type.id !== 0 && rects.get(getBlockTexture(type, face))) || rects.get(MISSING_TEXTURE)!;
+}
@@ -0,0 +1,128 @@
+// Underground pass - runs after a generator has filled its terrain with stone down to y=0.
+// Lays the bedrock floor, carves 3D caves and scatters ore veins through the stone.
+import type { ChunkData, WorldSeed } from '../types/game';
+import { BLOCKS, CHUNK_SIZE } from '../types/game';
+import { createRandom, hashSeed, mixSeed } from './seed';
+import { StableNoise } from './noise';
+
+// Caves and ores can be switched off per world; bedrock is always laid
+export interface UndergroundSettings {
+  caves: boolean;
+  ores: boolean;
+}
+
+export const DEFAULT_UNDERGROUND_SETTINGS: UndergroundSettings = {
+  caves: true,
+  ores: true
+};
+
+export interface OreDefinition {
+  blockType: number;
+  minY: number;
+  maxY: number;
+  veinSize: number; // Blocks per vein
+  veinsPerChunk: number;
+}
+
+// Rarer ores sit in narrower, deeper bands
+export const ORES: OreDefinition[] = [
+  { blockType: BLOCKS.COAL_ORE, minY: 5, maxY: 90, veinSize: 10, veinsPerChunk: 14 },
+  { blockType: BLOCKS.IRON_ORE, minY: 5, maxY: 56, veinSize: 7, veinsPerChunk: 9 },
+  { blockType: BLOCKS.GOLD_ORE, minY: 5, maxY: 28, veinSize: 6, veinsPerChunk: 2 },
+  { blockType: BLOCKS.DIAMOND_ORE, minY: 1, maxY: 14, veinSize: 4, veinsPerChunk: 1 }
+];
+
+// Caves stay this many blocks below the surface so the biome layers are left intact
+const CAVE_ROOF = 4;
+// Rows above bedrock that are never carved
+const CAVE_FLOOR = 3;
+
+export class UndergroundPass {
+  private chamberNoise: StableNoise;
+  private tunnelNoiseA: StableNoise;
+  private tunnelNoiseB: StableNoise;
+  private baseSeed: number;
+  readonly settings: UndergroundSettings;
+
+  constructor(seed: WorldSeed, settings: UndergroundSettings = DEFAULT_UNDERGROUND_SETTINGS) {
+    // Channels 200+ keep the pass independent of each generator's own noise
+    this.baseSeed = hashSeed(seed);
+    this.settings = settings;
+    this.chamberNoise = new StableNoise(mixSeed(this.baseSeed, 201));
+    this.tunnelNoiseA = new StableNoise(mixSeed(this.baseSeed, 202));
+    this.tunnelNoiseB = new StableNoise(mixSeed(this.baseSeed, 203));
+  }
+
+  // `heights[x][z]` is the surface height of each column in the chunk
+  apply(data: ChunkData, chunkX: number, chunkZ: number, heights: number[][]): void {
+    const random = createRandom(mixSeed(this.baseSeed, 200, chunkX, chunkZ));
+
+    this.placeBedrock(data, random);
+    if (this.settings.caves) this.carveCaves(data, chunkX, chunkZ, heights);
+    if (this.settings.ores) this.placeOres(data, random);
+  }
+
+  // Is there a cave at this world position?
+  isCave(x: number, y: number, z: number): boolean {
+    // Large chambers where the blobby noise peaks
+    if (this.chamberNoise.fractalNoise3D(x * 0.03, y * 0.05, z * 0.03) > 0.38) return true;
+
+    // Worm tunnels run along the line where two independent noise fields both cross zero
+    const a = this.tunnelNoiseA.noise3D(x * 0.02, y * 0.03, z * 0.02);
+    if (Math.abs(a) > 0.07) return false;
+    return Math.abs(this.tunnelNoiseB.noise3D(x * 0.02, y * 0.03, z * 0.02)) < 0.07;
+  }
+
+  // Solid floor at y=0 with a ragged layer just above it
+  private placeBedrock(data: ChunkData, random: () => number): void {
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        data.set(x, 0, z, BLOCKS.BEDROCK);
+        for (let y = 1; y < CAVE_FLOOR; y++) {
+          if (random() < 0.5 / y && data.get(x, y, z) === BLOCKS.STONE) {
+            data.set(x, y, z, BLOCKS.BEDROCK);
+          }
+        }
+      }
+    }
+  }
+
+  private carveCaves(data: ChunkData, chunkX: number, chunkZ: number, heights: number[][]): void {
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = chunkX * CHUNK_SIZE + x;
+        const worldZ = chunkZ * CHUNK_SIZE + z;
+        const roof = heights[x][z] - CAVE_ROOF;
+
+        for (let y = CAVE_FLOOR; y < roof; y++) {
+          if (data.get(x, y, z) === BLOCKS.STONE && this.isCave(worldX, y, worldZ)) {
+            data.set(x, y, z, 0);
+          }
+        }
+      }
+    }
+  }
+
+  // Each vein is a short random walk that only replaces stone, so caves stay open
+  private placeOres(data: ChunkData, random: () => number): void {
+    ORES.forEach(ore => {
+      for (let vein = 0; vein < ore.veinsPerChunk; vein++) {
+        let x = Math.floor(random() * CHUNK_SIZE);
+        let y = ore.minY + Math.floor(random() * (ore.maxY - ore.minY + 1));
+        let z = Math.floor(random() * CHUNK_SIZE);
+
+        for (let i = 0; i < ore.veinSize; i++) {
+          if (data.get(x, y, z) === BLOCKS.STONE) {
+            data.set(x, y, z, ore.blockType);
+          }
+
+          const axis = Math.floor(random() * 3);
+          const step = random() < 0.5 ? -1 : 1;
+          if (axis === 0) x = Math.max(0, Math.min(CHUNK_SIZE - 1, x + step));
+          else if (axis === 1) y = Math.max(ore.minY, Math.min(ore.maxY, y + step));
+          else z = Math.max(0, Math.min(CHUNK_SIZE - 1, z + step));
+        }
+      }
+    });
+  }
+}
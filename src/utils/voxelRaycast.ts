@@ -0,0 +1,62 @@
+// Voxel raycast - walks the block grid cell by cell along a ray (Amanatides & Woo),
+// so the hit is exact even when the ray meets a face on an integer boundary.
+
+export interface VoxelHit {
+  position: [number, number, number]; // Block that was hit
+  normal: [number, number, number]; // Face the ray entered through
+  adjacent: [number, number, number]; // Empty cell in front of that face, where a block would be placed
+  blockType: number;
+  distance: number;
+}
+
+// `getBlock` returns 0 for cells the ray can pass through
+export function raycastVoxels(
+  origin: [number, number, number],
+  direction: [number, number, number],
+  maxDistance: number,
+  getBlock: (x: number, y: number, z: number) => number
+): VoxelHit | null {
+  const length = Math.hypot(direction[0], direction[1], direction[2]);
+  if (length === 0) return null;
+
+  const dir = direction.map(d => d / length);
+  const cell = origin.map(Math.floor);
+  const step = dir.map(d => Math.sign(d));
+
+  // Ray distance between successive boundaries on each axis, and to the first boundary
+  const tDelta = dir.map(d => (d === 0 ? Infinity : Math.abs(1 / d)));
+  const tMax = dir.map((d, axis) => {
+    if (d === 0) return Infinity;
+    const boundary = d > 0 ? cell[axis] + 1 : cell[axis];
+    return (boundary - origin[axis]) / d;
+  });
+
+  const normal: [number, number, number] = [0, 0, 0];
+  let distance = 0;
+
+  while (distance <= maxDistance) {
+    const blockType = getBlock(cell[0], cell[1], cell[2]);
+    if (blockType > 0) {
+      return {
+        position: [cell[0], cell[1], cell[2]],
+        normal: [normal[0], normal[1], normal[2]],
+        adjacent: [cell[0] + normal[0], cell[1] + normal[1], cell[2] + normal[2]],
+        blockType,
+        distance
+      };
+    }
+
+    // Step across whichever boundary is closest
+    const axis = tMax[0] < tMax[1]
+      ? (tMax[0] < tMax[2] ? 0 : 2)
+      : (tMax[1] < tMax[2] ? 1 : 2);
+
+    distance = tMax[axis];
+    cell[axis] += step[axis];
+    tMax[axis] += tDelta[axis];
+    normal[0] = normal[1] = normal[2] = 0;
+    normal[axis] = -step[axis];
+  }
+
+  return null;
+}
@@ -44,9 +44,6 @@ export const VOXEL_MEMORY_CONFIG = {
   LOD_DISTANCE_MID: 20,       // Emergency reduction (was 35) 
   LOD_DISTANCE_FAR: 35,       // Emergency reduction (was 70)
   
-  // Maximum geometry per chunk to prevent excessive detail - EMERGENCY LIMITS
-  MAX_GEOMETRY_PER_CHUNK: 100, // Emergency reduction from 800
-  SIMPLIFY_THRESHOLD: 50,      // Emergency threshold for block merging
     // Memory cleanup intervals (milliseconds) - FASTER RESPONSE
   CLEANUP_INTERVAL_NORMAL: 15000,    // 15 seconds in normal operation (was 30)
   CLEANUP_INTERVAL_WARNING: 5000,   // 5 seconds when memory pressure detected (was 10)
@@ -72,7 +69,8 @@ export function getOptimalSettings() {
       maxTextureSize: 256,   // Very small textures (was 512)
       chunkSize: 16,         // Smaller chunks
       frameLoop: 'demand',   // Render only when needed
-      maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_LOW_END
+      maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_LOW_END,
+      ambientOcclusion: false // Plain faces mesh into far fewer quads
     };
   }
     // For medium devices
@@ -85,7 +83,8 @@ export function getOptimalSettings() {
       maxTextureSize: 512,  // Reduced medium textures (was 1024)
       chunkSize: 16,          // Standard chunk size
       frameLoop: 'always',   // Always render
-      maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_MID_RANGE
+      maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_MID_RANGE,
+      ambientOcclusion: true
     };
   }
     // For high-end devices - CONSERVATIVE EVEN FOR HIGH-END
@@ -96,7 +95,8 @@ export function getOptimalSettings() {
     maxTextureSize: 1024,    // Reduced high quality textures (was 2048)
     chunkSize: 16,            // Standard chunk size
     frameLoop: 'always',     // Always render
-    maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_HIGH_END
+    maxChunks: VOXEL_MEMORY_CONFIG.MAX_CHUNKS_HIGH_END,
+    ambientOcclusion: true
   };
 }
 
@@ -0,0 +1,381 @@
+// World facade - single owner of loaded chunks for rendering, physics and HUD
+import type { Block, Chunk } from '../types/game';
+import { BLOCK_TYPES, CHUNK_SIZE, WORLD_HEIGHT, ChunkData, getChunkData } from '../types/game';
+import { stableWorldGenerator } from './stableWorldGenerator';
+import type { BiomeDefinition } from './biomes';
+import { registerFluidBehaviors } from './fluids';
+import { LightEngine } from './lighting';
+import type { LightData } from './lighting';
+
+export type WorldEvent =
+  | { type: 'chunkLoaded'; chunk: Chunk }
+  | { type: 'chunkUnloaded'; chunkX: number; chunkZ: number }
+  | { type: 'blockChanged'; x: number; y: number; z: number; previousType: number; blockType: number; chunk: Chunk }
+  // Light in a chunk changed because of a load or edit elsewhere; edited chunks get blockChanged instead
+  | { type: 'lightChanged'; chunkX: number; chunkZ: number };
+
+export type WorldListener = (event: WorldEvent) => void;
+
+// Reacts to a scheduled update of a block of the type it was registered for
+export type BlockBehavior = (x: number, y: number, z: number, blockType: number, world: World) => void;
+
+// Updates beyond this many in one tick wait for the next one
+const MAX_BLOCK_UPDATES_PER_TICK = 1000;
+
+// Chunk whose legacy `blocks` list is only built when something reads it; walking every cell
+// on each edit would make fluid ticks crawl
+const createChunk = (chunkX: number, chunkZ: number, data: ChunkData): Chunk => {
+  let blocks: Block[] | null = null;
+  return {
+    x: chunkX,
+    z: chunkZ,
+    isReady: true,
+    data,
+    get blocks() {
+      if (!blocks) blocks = data.toBlocks(chunkX, chunkZ);
+      return blocks;
+    }
+  };
+};
+
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]
+];
+
+// Anything that can produce chunks on demand (all generators in utils/ qualify)
+export interface ChunkSource {
+  generateChunk(chunkX: number, chunkZ: number): Chunk;
+  getBiomeAt?(x: number, z: number): BiomeDefinition;
+}
+
+export interface ModifiedChunk {
+  x: number;
+  z: number;
+  data: ChunkData;
+}
+
+// Where edited chunks go when they are saved or evicted (see WorldStore)
+export interface ChunkStore {
+  saveChunks(chunks: ModifiedChunk[]): Promise<void>;
+}
+
+export class World {
+  private chunks = new Map<string, Chunk>();
+  private listeners = new Set<WorldListener>();
+  private generator: ChunkSource;
+  // Edited chunks that are not loaded right now; they win over the generator
+  private savedChunks = new Map<string, ChunkData>();
+  private dirtyChunks = new Set<string>();
+  private store: ChunkStore | null = null;
+  private behaviors = new Map<number, { behavior: BlockBehavior; delay: number }>();
+  // Pending block updates by position; `tick` is the simulation tick they are due on
+  private scheduledUpdates = new Map<string, { x: number; y: number; z: number; tick: number }>();
+  private currentTick = 0;
+  private lighting = new LightEngine(this);
+
+  constructor(generator: ChunkSource) {
+    this.generator = generator;
+  }
+
+  // Start over with another generator, e.g. when a different save slot is opened.
+  // `savedChunks` holds previously edited chunks keyed by getChunkKey.
+  open(generator: ChunkSource, savedChunks = new Map<string, ChunkData>(), store: ChunkStore | null = null): void {
+    this.getLoadedChunks().forEach(chunk => this.unloadChunk(chunk.x, chunk.z));
+    this.generator = generator;
+    this.savedChunks = savedChunks;
+    this.dirtyChunks.clear();
+    this.store = store;
+    this.scheduledUpdates.clear();
+  }
+
+  getChunkKey(chunkX: number, chunkZ: number): string {
+    return `${chunkX},${chunkZ}`;
+  }
+
+  getChunk(chunkX: number, chunkZ: number): Chunk | undefined {
+    return this.chunks.get(this.getChunkKey(chunkX, chunkZ));
+  }
+
+  hasChunk(chunkX: number, chunkZ: number): boolean {
+    return this.chunks.has(this.getChunkKey(chunkX, chunkZ));
+  }
+
+  getLoadedChunks(): Chunk[] {
+    return Array.from(this.chunks.values());
+  }
+
+  get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  loadChunk(chunkX: number, chunkZ: number): Chunk {
+    const existing = this.getChunk(chunkX, chunkZ);
+    if (existing) return existing;
+
+    const key = this.getChunkKey(chunkX, chunkZ);
+    const saved = this.savedChunks.get(key);
+    let chunk: Chunk;
+
+    if (saved) {
+      chunk = createChunk(chunkX, chunkZ, new ChunkData(saved.cells.slice(), saved.palette));
+    } else {
+      const generated = this.generator.generateChunk(chunkX, chunkZ);
+      const source = getChunkData(generated);
+
+      // Take a private copy so edits never leak back into generator caches
+      chunk = {
+        ...generated,
+        data: new ChunkData(source.cells.slice(), source.palette)
+      };
+    }
+
+    this.chunks.set(key, chunk);
+    const lit = this.lighting.addChunk(chunkX, chunkZ, getChunkData(chunk));
+    this.emit({ type: 'chunkLoaded', chunk });
+    this.emitLightChanged(lit, key);
+    return chunk;
+  }
+
+  // Modified chunks are written out before they leave memory
+  unloadChunk(chunkX: number, chunkZ: number): boolean {
+    const key = this.getChunkKey(chunkX, chunkZ);
+    const chunk = this.chunks.get(key);
+    if (!chunk) return false;
+
+    if (this.dirtyChunks.has(key)) {
+      this.persist([chunk]);
+    }
+    this.chunks.delete(key);
+    this.lighting.removeChunk(chunkX, chunkZ);
+
+    this.emit({ type: 'chunkUnloaded', chunkX, chunkZ });
+    return true;
+  }
+
+  // Unload every chunk farther than maxDistance (in chunks) from the center chunk
+  unloadDistantChunks(centerX: number, centerZ: number, maxDistance: number): number {
+    const distant = this.getLoadedChunks().filter(chunk =>
+      Math.sqrt((chunk.x - centerX) ** 2 + (chunk.z - centerZ) ** 2) > maxDistance
+    );
+
+    distant.forEach(chunk => this.unloadChunk(chunk.x, chunk.z));
+    return distant.length;
+  }
+
+  // Block type at world coordinates; unloaded chunks read as air
+  getBlock(x: number, y: number, z: number): number {
+    const blockX = Math.floor(x);
+    const blockZ = Math.floor(z);
+    const chunkX = Math.floor(blockX / CHUNK_SIZE);
+    const chunkZ = Math.floor(blockZ / CHUNK_SIZE);
+    const chunk = this.getChunk(chunkX, chunkZ);
+
+    if (!chunk) return 0;
+
+    return getChunkData(chunk).get(
+      blockX - chunkX * CHUNK_SIZE,
+      Math.floor(y),
+      blockZ - chunkZ * CHUNK_SIZE
+    );
+  }
+
+  // Blocks players collide with; fluids, torches and saplings have no collision shape
+  isSolid(x: number, y: number, z: number): boolean {
+    return BLOCK_TYPES[this.getBlock(x, y, z)]?.collision === 'cube';
+  }
+
+  // Returns false when the chunk is not loaded or the block is unchanged
+  setBlock(x: number, y: number, z: number, blockType: number): boolean {
+    const blockX = Math.floor(x);
+    const blockY = Math.floor(y);
+    const blockZ = Math.floor(z);
+    const chunkX = Math.floor(blockX / CHUNK_SIZE);
+    const chunkZ = Math.floor(blockZ / CHUNK_SIZE);
+    const key = this.getChunkKey(chunkX, chunkZ);
+    const chunk = this.chunks.get(key);
+
+    if (!chunk) return false;
+
+    const data = getChunkData(chunk);
+    const localX = blockX - chunkX * CHUNK_SIZE;
+    const localZ = blockZ - chunkZ * CHUNK_SIZE;
+    const previousType = data.get(localX, blockY, localZ);
+
+    if (!data.set(localX, blockY, localZ, blockType)) return false;
+
+    // Replace the chunk object so React consumers see a new reference
+    const updated = createChunk(chunkX, chunkZ, data);
+    this.chunks.set(key, updated);
+    this.dirtyChunks.add(key);
+    const lit = this.lighting.updateBlock(blockX, blockY, blockZ, blockType);
+
+    this.emit({
+      type: 'blockChanged',
+      x: blockX,
+      y: blockY,
+      z: blockZ,
+      previousType,
+      blockType,
+      chunk: updated
+    });
+    this.emitLightChanged(lit, key);
+    this.notifyNeighbours(blockX, blockY, blockZ);
+    return true;
+  }
+
+  // Packed sky and block light at world coordinates (see lighting.ts)
+  getLight(x: number, y: number, z: number): number {
+    return this.lighting.getLight(Math.floor(x), Math.floor(y), Math.floor(z));
+  }
+
+  getChunkLight(chunkX: number, chunkZ: number): LightData | undefined {
+    return this.lighting.getChunkLight(chunkX, chunkZ);
+  }
+
+  // Y of the topmost solid block in a column, or null if the column is empty/unloaded
+  getHighestSolidY(x: number, z: number): number | null {
+    for (let y = WORLD_HEIGHT - 1; y >= 0; y--) {
+      if (this.isSolid(x, y, z)) return y;
+    }
+    return null;
+  }
+
+  // Visit every non-air block inside the inclusive box [min, max]
+  forEachBlockInRegion(
+    min: [number, number, number],
+    max: [number, number, number],
+    callback: (blockType: number, x: number, y: number, z: number) => void
+  ): void {
+    const minY = Math.max(0, Math.floor(min[1]));
+    const maxY = Math.min(WORLD_HEIGHT - 1, Math.floor(max[1]));
+
+    for (let x = Math.floor(min[0]); x <= Math.floor(max[0]); x++) {
+      for (let z = Math.floor(min[2]); z <= Math.floor(max[2]); z++) {
+        for (let y = minY; y <= maxY; y++) {
+          const blockType = this.getBlock(x, y, z);
+          if (blockType > 0) callback(blockType, x, y, z);
+        }
+      }
+    }
+  }
+
+  get dirtyChunkCount(): number {
+    return this.dirtyChunks.size;
+  }
+
+  // Write every loaded chunk edited since the last save
+  saveDirtyChunks(): Promise<void> {
+    const dirty = this.getLoadedChunks().filter(chunk =>
+      this.dirtyChunks.has(this.getChunkKey(chunk.x, chunk.z))
+    );
+    return this.persist(dirty);
+  }
+
+  private persist(chunks: Chunk[]): Promise<void> {
+    if (chunks.length === 0) return Promise.resolve();
+
+    const modified = chunks.map(chunk => {
+      const key = this.getChunkKey(chunk.x, chunk.z);
+      const source = getChunkData(chunk);
+      const data = new ChunkData(source.cells.slice(), source.palette);
+
+      // Keep our own copy too, so reloading the chunk never waits on the store
+      this.savedChunks.set(key, data);
+      this.dirtyChunks.delete(key);
+      return { x: chunk.x, z: chunk.z, data };
+    });
+
+    if (!this.store) return Promise.resolve();
+    return this.store.saveChunks(modified).catch(error => {
+      console.error('❌ World: Failed to save chunks:', error);
+      modified.forEach(({ x, z }) => {
+        if (this.hasChunk(x, z)) this.dirtyChunks.add(this.getChunkKey(x, z));
+      });
+    });
+  }
+
+  // Biome at a world column, or null when the generator has no biome stage
+  getBiomeAt(x: number, z: number): BiomeDefinition | null {
+    return this.generator.getBiomeAt?.(x, z) ?? null;
+  }
+
+  // `delay` is how many ticks after a change nearby the behavior runs
+  registerBlockBehavior(blockType: number, behavior: BlockBehavior, delay = 1): void {
+    this.behaviors.set(blockType, { behavior, delay });
+  }
+
+  // A changed block and its six neighbours get an update if their type has a behavior
+  private notifyNeighbours(x: number, y: number, z: number): void {
+    [[0, 0, 0] as [number, number, number], ...NEIGHBOURS].forEach(([dx, dy, dz]) => {
+      const registered = this.behaviors.get(this.getBlock(x + dx, y + dy, z + dz));
+      if (registered) this.scheduleBlockUpdate(x + dx, y + dy, z + dz, registered.delay);
+    });
+  }
+
+  // Ask for the block at (x, y, z) to be updated `delay` ticks from now.
+  // A position is queued once; an earlier request wins over a later one.
+  scheduleBlockUpdate(x: number, y: number, z: number, delay = 1): void {
+    const key = `${x},${y},${z}`;
+    const tick = this.currentTick + Math.max(1, delay);
+    const existing = this.scheduledUpdates.get(key);
+    if (!existing || existing.tick > tick) {
+      this.scheduledUpdates.set(key, { x, y, z, tick });
+    }
+  }
+
+  // Run the block updates due by `tick`; driven by the simulation clock
+  tick(tick: number): void {
+    // When the clock jumps (/time, a loaded save) pending updates move with it, so they
+    // neither all fire at once nor stall
+    const jump = tick - 1 - this.currentTick;
+    if (jump !== 0) this.scheduledUpdates.forEach(update => { update.tick += jump; });
+    this.currentTick = tick;
+
+    const due = Array.from(this.scheduledUpdates.entries())
+      .filter(([, update]) => update.tick <= tick)
+      .slice(0, MAX_BLOCK_UPDATES_PER_TICK);
+
+    due.forEach(([key, { x, y, z }]) => {
+      this.scheduledUpdates.delete(key);
+      const blockType = this.getBlock(x, y, z);
+      const registered = this.behaviors.get(blockType);
+      if (!registered) return;
+
+      try {
+        registered.behavior(x, y, z, blockType, this);
+      } catch (error) {
+        console.error(`❌ World: Block update failed at (${x}, ${y}, ${z}):`, error);
+      }
+    });
+  }
+
+  // Register for world changes; returns an unsubscribe function
+  subscribe(listener: WorldListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Tell every chunk in `keys` except `except` that its light changed
+  private emitLightChanged(keys: string[], except: string): void {
+    keys.filter(key => key !== except).forEach(key => {
+      const chunk = this.chunks.get(key);
+      if (chunk) this.emit({ type: 'lightChanged', chunkX: chunk.x, chunkZ: chunk.z });
+    });
+  }
+
+  private emit(event: WorldEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ World: Listener failed:', error);
+      }
+    });
+  }
+}
+
+// Shared world used by the stable game mode
+export const world = new World(stableWorldGenerator);
+registerFluidBehaviors(world);
@@ -1,107 +1,103 @@
 import { createNoise2D } from 'simplex-noise';
-import type { Block, Chunk } from '../types/game';
-import { CHUNK_SIZE, WORLD_HEIGHT } from '../types/game';
+import type { Chunk, WorldSeed } from '../types/game';
+import { CHUNK_SIZE, WORLD_HEIGHT, ChunkData } from '../types/game';
+import { DEFAULT_WORLD_SEED, createChunkRandom, createRandom, hashSeed, mixSeed } from './seed';
+import { UndergroundPass, DEFAULT_UNDERGROUND_SETTINGS } from './underground';
+import type { UndergroundSettings } from './underground';
+import { STRUCTURES, StructurePlacer } from './structures';
+import type { StructurePlacement, StructureRotation } from './structures';
 
 export class WorldGenerator {
-  private heightNoise = createNoise2D();
-  private caveNoise = createNoise2D();
-  private treeNoise = createNoise2D();
+  private heightNoise: ReturnType<typeof createNoise2D>;
+  private treeNoise: ReturnType<typeof createNoise2D>;
+  private underground: UndergroundPass;
+  private structures: StructurePlacer;
+  readonly seed: WorldSeed;
+
+  constructor(seed: WorldSeed = DEFAULT_WORLD_SEED, underground: UndergroundSettings = DEFAULT_UNDERGROUND_SETTINGS) {
+    this.seed = seed;
+    const baseSeed = hashSeed(seed);
+    this.heightNoise = createNoise2D(createRandom(mixSeed(baseSeed, 1)));
+    this.treeNoise = createNoise2D(createRandom(mixSeed(baseSeed, 3)));
+    this.underground = new UndergroundPass(seed, underground);
+    this.structures = new StructurePlacer((chunkX, chunkZ) => this.planTrees(chunkX, chunkZ));
+  }
+
   generateChunk(chunkX: number, chunkZ: number): Chunk {
-    const blockMap = new Map<string, Block>(); // Use Map to ensure unique positions
+    const data = new ChunkData(); // Dense storage keeps positions unique
+    const heights: number[][] = [];
 
     for (let x = 0; x < CHUNK_SIZE; x++) {
+      heights[x] = [];
       for (let z = 0; z < CHUNK_SIZE; z++) {
         const worldX = chunkX * CHUNK_SIZE + x;
         const worldZ = chunkZ * CHUNK_SIZE + z;
 
-        // Generate height using noise
-        const heightValue = this.heightNoise(worldX * 0.01, worldZ * 0.01);
-        const height = Math.floor((heightValue + 1) * 16) + 32; // Height between 32-64
+        const height = this.getSurfaceHeight(worldX, worldZ);
+        heights[x][z] = height;
 
         // Generate terrain layers
         for (let y = 0; y < Math.min(height + 1, WORLD_HEIGHT); y++) {
-          let blockType = 0; // Air
-          
-          // Cave generation
-          const caveValue = this.caveNoise(worldX * 0.05 + y * 0.1, worldZ * 0.05 + y * 0.1);
-          const isCave = caveValue > 0.4 && y < height - 2 && y > 5;
-
-          if (!isCave && y <= height) {
-            if (y === height && height > 40) {
-              blockType = 1; // Grass
-            } else if (y > height - 4) {
-              blockType = 2; // Dirt
-            } else {
-              blockType = 3; // Stone
-            }
-          }
+          let blockType: number;
 
-          if (blockType !== 0) {
-            const blockKey = `${worldX},${y},${worldZ}`;
-            blockMap.set(blockKey, {
-              type: blockType,
-              x: worldX,
-              y,
-              z: worldZ,
-            });
+          if (y === height && height > 40) {
+            blockType = 1; // Grass
+          } else if (y > height - 4) {
+            blockType = 2; // Dirt
+          } else {
+            blockType = 3; // Stone
           }
-        }
 
-        // Generate trees occasionally
-        const treeValue = this.treeNoise(worldX * 0.1, worldZ * 0.1);
-        if (treeValue > 0.6 && height > 40) {
-          this.generateTree(blockMap, worldX, height + 1, worldZ);
+          data.set(x, y, z, blockType);
         }
       }
     }
 
+    // Bedrock, caves and ores are carved out of the solid terrain in a separate pass
+    this.underground.apply(data, chunkX, chunkZ, heights);
+
+    // Trees, including the parts neighbouring chunks queued for us
+    this.structures.decorate(data, chunkX, chunkZ);
+
     return {
       x: chunkX,
       z: chunkZ,
-      blocks: Array.from(blockMap.values()),
+      blocks: data.toBlocks(chunkX, chunkZ),
+      isReady: true,
+      data,
     };
   }
-  private generateTree(blockMap: Map<string, Block>, x: number, y: number, z: number): void {
-    const treeHeight = 4 + Math.floor(Math.random() * 3);
-
-    // Tree trunk
-    for (let i = 0; i < treeHeight; i++) {
-      const blockKey = `${x},${y + i},${z}`;
-      blockMap.set(blockKey, {
-        type: 4, // Wood
-        x,
-        y: y + i,
-        z,
-      });
-    }
+  private getSurfaceHeight(x: number, z: number): number {
+    // Generate height using noise
+    const heightValue = this.heightNoise(x * 0.01, z * 0.01);
+    return Math.floor((heightValue + 1) * 16) + 32; // Height between 32-64
+  }
 
-    // Tree leaves
-    const leavesY = y + treeHeight;
-    for (let dx = -2; dx <= 2; dx++) {
-      for (let dz = -2; dz <= 2; dz++) {
-        for (let dy = -1; dy <= 1; dy++) {
-          if (dx === 0 && dz === 0 && dy <= 0) continue; // Don't place leaves where trunk is
-          
-          const distance = Math.abs(dx) + Math.abs(dz) + Math.abs(dy);
-          if (distance <= 3 && Math.random() > 0.1) {
-            const leafX = x + dx;
-            const leafY = leavesY + dy;
-            const leafZ = z + dz;
-            const blockKey = `${leafX},${leafY},${leafZ}`;
-            
-            // Only place leaves if there's no existing block (trunk takes priority)
-            if (!blockMap.has(blockKey)) {
-              blockMap.set(blockKey, {
-                type: 5, // Leaves
-                x: leafX,
-                y: leafY,
-                z: leafZ,
-              });
-            }
-          }
+  // Trees grow where the tree noise peaks on grassy ground
+  private planTrees(chunkX: number, chunkZ: number): StructurePlacement[] {
+    const random = createChunkRandom(this.seed, chunkX, chunkZ);
+    const placements: StructurePlacement[] = [];
+
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        const worldX = chunkX * CHUNK_SIZE + x;
+        const worldZ = chunkZ * CHUNK_SIZE + z;
+        const treeValue = this.treeNoise(worldX * 0.1, worldZ * 0.1);
+        const height = treeValue > 0.6 ? this.getSurfaceHeight(worldX, worldZ) : 0;
+
+        if (height > 40) {
+          placements.push({
+            template: random() < 0.5 ? STRUCTURES.oak_tree : STRUCTURES.tall_oak_tree,
+            x: worldX,
+            y: height + 1,
+            z: worldZ,
+            rotation: Math.floor(random() * 4) as StructureRotation
+          });
         }
       }
     }
+
+    return placements;
   }
 
   getChunkKey(x: number, z: number): string {
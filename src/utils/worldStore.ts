@@ -0,0 +1,465 @@
+// World persistence - save slots, player state and edited chunks in IndexedDB.
+// Only chunks that differ from what the generator would produce are stored. Numeric block ids
+// depend on the block registry, so chunk palettes are saved as block string ids and players
+// record the id mapping their inventory was saved with.
+import type { GameState, InventorySlot, Player, WorldSeed } from '../types/game';
+import { ChunkData } from '../types/game';
+import type { ChunkStore, ModifiedChunk } from './world';
+import { AIR_KEY, MAX_BLOCK_TYPES, blockRegistry } from './blockRegistry';
+import type { BlockIdMapping } from './blockRegistry';
+import type { WorldType } from './worldTypes';
+import { WORLD_TYPES } from './worldTypes';
+import { HOTBAR_SIZE, INVENTORY_SIZE } from './inventory';
+import { MAX_HEALTH, MAX_HUNGER } from './playerVitals';
+
+const DB_NAME = 'minecraft-clone';
+const DB_VERSION = 1;
+const SLOTS = 'slots';
+const PLAYERS = 'players';
+const CHUNKS = 'chunks';
+const EXPORT_FORMAT = 'minecraft-clone-world';
+const EXPORT_VERSION = 2;
+
+const GAME_MODES: GameState['gameMode'][] = ['survival', 'creative', 'spectator'];
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  seed: WorldSeed;
+  gameMode: GameState['gameMode'];
+  worldType: WorldType;
+  time: number; // World clock in ticks
+  createdAt: number;
+  lastPlayed: number;
+  thumbnail?: string; // Small JPEG data URL of the last saved view
+}
+
+export interface NewSlotOptions {
+  name: string;
+  seed: WorldSeed;
+  gameMode?: SaveSlot['gameMode'];
+  worldType?: WorldType;
+}
+
+export interface SavedPlayer {
+  position: Player['position'];
+  rotation: Player['rotation'];
+  inventory: InventorySlot[];
+  selectedSlot: number; // Hotbar index
+  health: Player['health'];
+  hunger: Player['hunger'];
+}
+
+interface StoredPlayer extends SavedPlayer {
+  slotId: string;
+  blockIds: BlockIdMapping; // Ids of the block items in the inventory
+}
+
+interface StoredChunk {
+  slotId: string;
+  x: number;
+  z: number;
+  cells: Uint16Array;
+  palette: string[]; // Block string ids
+}
+
+// Wrap an IDBRequest in a promise
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Resolve once a transaction has committed
+const committed = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Single-file export of a slot; chunk cells are base64 so the file stays plain JSON
+interface WorldExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  slot: SaveSlot;
+  player?: SavedPlayer;
+  blockIds: BlockIdMapping; // Ids of the player's block items
+  chunks: Array<{ x: number; z: number; palette: string[]; cells: string }>;
+}
+
+const createSlotId = (): string =>
+  `world-${Date.now().toString(36)}-${Math.floor(Math.random() * 0x100000).toString(36)}`;
+
+const isWorldType = (value: unknown): value is WorldType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(WORLD_TYPES, value);
+
+// Slots saved before world types existed are default worlds
+const withDefaults = (slot: SaveSlot): SaveSlot => ({ ...slot, worldType: isWorldType(slot.worldType) ? slot.worldType : 'default' });
+
+const encodeCells = (cells: Uint16Array): string => {
+  const bytes = new Uint8Array(cells.buffer, cells.byteOffset, cells.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const decodeCells = (encoded: string): Uint16Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Uint16Array(bytes.buffer);
+};
+
+const toStoredPalette = (palette: number[]): string[] =>
+  palette.map(blockType => blockRegistry.get(blockType)?.key ?? AIR_KEY);
+
+const toStoredPlayer = (slotId: string, player: SavedPlayer): StoredPlayer =>
+  ({ ...player, slotId, blockIds: blockRegistry.getIdMapping() });
+
+const toStoredChunk = (slotId: string, { x, z, data }: ModifiedChunk): StoredChunk =>
+  ({ slotId, x, z, cells: data.cells, palette: toStoredPalette(data.palette) });
+
+// Checks for imported world files, which may have been edited or damaged by hand
+const damaged = (problem: string): Error => new Error(`World file is damaged: ${problem}`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isWholeNumber = (value: unknown, min = 0): value is number => Number.isInteger(value) && (value as number) >= min;
+
+const isVector = (value: unknown, length: number): boolean =>
+  Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+
+// An empty inventory slot or an item stack
+const isSavedSlot = (value: unknown): value is InventorySlot =>
+  value === null ||
+  (isRecord(value) && isWholeNumber(value.itemId) && isWholeNumber(value.count, 1) &&
+    (value.metadata === undefined || (isRecord(value.metadata) && Object.values(value.metadata).every(isFiniteNumber))));
+
+const clampStat = (value: unknown, max: number): number => isFiniteNumber(value) ? Math.min(Math.max(value, 0), max) : max;
+
+// An exported slot with defaults for fields older exports lack; ids and dates are replaced on import
+function parseSlot(value: unknown): SaveSlot {
+  if (!isRecord(value)) throw damaged('the world details are missing');
+
+  const { name, seed, gameMode = 'creative', worldType = 'default', time = 0, thumbnail } = value;
+  if (typeof seed !== 'string' && !isFiniteNumber(seed)) throw damaged('the seed must be text or a number');
+  if (!GAME_MODES.includes(gameMode as GameState['gameMode'])) throw damaged(`unknown game mode "${String(gameMode)}"`);
+  if (!isWorldType(worldType)) throw damaged(`unknown world type "${String(worldType)}"`);
+  if (!isFiniteNumber(time) || time < 0) throw damaged('the world time must be a number of ticks');
+
+  const now = Date.now();
+  return {
+    id: createSlotId(),
+    name: typeof name === 'string' && name.trim() !== '' ? name : 'Imported World',
+    seed,
+    gameMode: gameMode as GameState['gameMode'],
+    worldType,
+    time,
+    createdAt: now,
+    lastPlayed: now,
+    ...(typeof thumbnail === 'string' && thumbnail.startsWith('data:image/') && { thumbnail })
+  };
+}
+
+function parsePlayer(value: unknown): SavedPlayer | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || !isVector(value.position, 3) || !isVector(value.rotation, 2)) {
+    throw damaged('the player position is invalid');
+  }
+  const { inventory, selectedSlot } = value;
+  if (!Array.isArray(inventory) || inventory.length !== INVENTORY_SIZE || !inventory.every(isSavedSlot)) {
+    throw damaged('the player inventory is invalid');
+  }
+
+  return {
+    position: value.position as SavedPlayer['position'],
+    rotation: value.rotation as SavedPlayer['rotation'],
+    inventory,
+    selectedSlot: isWholeNumber(selectedSlot) && selectedSlot < HOTBAR_SIZE ? selectedSlot : 0,
+    health: clampStat(value.health, MAX_HEALTH),
+    hunger: clampStat(value.hunger, MAX_HUNGER)
+  };
+}
+
+function parseChunk(value: unknown, index: number): WorldExport['chunks'][number] {
+  if (!isRecord(value) || !Number.isInteger(value.x) || !Number.isInteger(value.z) || typeof value.cells !== 'string') {
+    throw damaged(`chunk #${index} is invalid`);
+  }
+  const { x, z, palette, cells } = value as { x: number; z: number; palette: unknown; cells: string };
+  if (!Array.isArray(palette) || palette.length === 0 ||
+    !palette.every(entry => typeof entry === 'string' && entry !== '')) {
+    throw damaged(`chunk ${x},${z} has an invalid block palette`);
+  }
+  return { x, z, palette, cells };
+}
+
+// Check the whole file before anything is written; chunk cells are checked as they are decoded
+function parseWorldExport(value: unknown): WorldExport {
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT) {
+    throw new Error('File is not a world export');
+  }
+  if (!isWholeNumber(value.version, 1)) throw damaged('the version is missing');
+  if (value.version > EXPORT_VERSION) {
+    throw new Error(`World export version ${value.version} is newer than this game supports`);
+  }
+
+  const { blockIds, chunks } = value;
+  if (!isRecord(blockIds) || !Object.values(blockIds).every(id => isWholeNumber(id))) {
+    throw damaged('the block id list is invalid');
+  }
+  if (!Array.isArray(chunks)) throw damaged('the chunk list is missing');
+
+  return {
+    format: EXPORT_FORMAT,
+    version: value.version,
+    slot: parseSlot(value.slot),
+    player: parsePlayer(value.player),
+    blockIds: blockIds as BlockIdMapping,
+    chunks: chunks.map(parseChunk)
+  };
+}
+
+export class WorldStore {
+  private database: Promise<IDBDatabase> | null = null;
+  private reportedMissing = new Set<string>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          db.createObjectStore(SLOTS, { keyPath: 'id' });
+          db.createObjectStore(PLAYERS, { keyPath: 'slotId' });
+          const chunks = db.createObjectStore(CHUNKS, { keyPath: ['slotId', 'x', 'z'] });
+          chunks.createIndex('slotId', 'slotId');
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+
+      // Allow a retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  async listSlots(): Promise<SaveSlot[]> {
+    const db = await this.open();
+    const slots = await request<SaveSlot[]>(db.transaction(SLOTS).objectStore(SLOTS).getAll());
+    return slots.map(withDefaults).sort((a, b) => b.lastPlayed - a.lastPlayed);
+  }
+
+  async getSlot(id: string): Promise<SaveSlot | undefined> {
+    const db = await this.open();
+    const slot = await request<SaveSlot | undefined>(db.transaction(SLOTS).objectStore(SLOTS).get(id));
+    return slot && withDefaults(slot);
+  }
+
+  async createSlot({ name, seed, gameMode = 'creative', worldType = 'default' }: NewSlotOptions): Promise<SaveSlot> {
+    const now = Date.now();
+    const slot: SaveSlot = { id: createSlotId(), name, seed, gameMode, worldType, time: 0, createdAt: now, lastPlayed: now };
+    await this.saveSlot(slot);
+    console.log(`💾 WorldStore: Created world "${name}" (${slot.id})`);
+    return slot;
+  }
+
+  async saveSlot(slot: SaveSlot): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SLOTS, 'readwrite');
+    transaction.objectStore(SLOTS).put(slot);
+    await committed(transaction);
+  }
+
+  // Remove a slot together with its player and chunks
+  async deleteSlot(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SLOTS, PLAYERS, CHUNKS], 'readwrite');
+    transaction.objectStore(SLOTS).delete(id);
+    transaction.objectStore(PLAYERS).delete(id);
+
+    const chunkKeys = await request(transaction.objectStore(CHUNKS).index('slotId').getAllKeys(id));
+    chunkKeys.forEach(key => transaction.objectStore(CHUNKS).delete(key));
+    await committed(transaction);
+    console.log(`🗑️  WorldStore: Deleted world ${id}`);
+  }
+
+  async loadPlayer(slotId: string): Promise<SavedPlayer | undefined> {
+    const db = await this.open();
+    const stored = await request<StoredPlayer | undefined>(db.transaction(PLAYERS).objectStore(PLAYERS).get(slotId));
+    if (!stored) return undefined;
+
+    const { position, rotation, inventory, selectedSlot, health, hunger, blockIds } = stored;
+    return {
+      position,
+      rotation,
+      inventory: this.remapInventory(inventory, blockIds),
+      selectedSlot,
+      health,
+      hunger
+    };
+  }
+
+  async savePlayer(slotId: string, player: SavedPlayer): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(PLAYERS, 'readwrite');
+    transaction.objectStore(PLAYERS).put(toStoredPlayer(slotId, player));
+    await committed(transaction);
+  }
+
+  // Every saved chunk of a slot, keyed like World.getChunkKey
+  async loadChunks(slotId: string): Promise<Map<string, ChunkData>> {
+    const db = await this.open();
+    const stored = await request<StoredChunk[]>(
+      db.transaction(CHUNKS).objectStore(CHUNKS).index('slotId').getAll(slotId)
+    );
+
+    console.log(`📂 WorldStore: Loaded ${stored.length} saved chunks for ${slotId}`);
+    return new Map(stored.map(chunk => [`${chunk.x},${chunk.z}`, new ChunkData(chunk.cells, this.fromStoredPalette(chunk.palette))]));
+  }
+
+  async saveChunks(slotId: string, chunks: ModifiedChunk[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CHUNKS, 'readwrite');
+    const objectStore = transaction.objectStore(CHUNKS);
+
+    chunks.forEach(chunk => objectStore.put(toStoredChunk(slotId, chunk)));
+    await committed(transaction);
+  }
+
+  async renameSlot(id: string, name: string): Promise<void> {
+    const slot = await this.getSlot(id);
+    if (!slot) throw new Error(`World ${id} does not exist`);
+    await this.saveSlot({ ...slot, name });
+  }
+
+  // Copy a slot with its player and chunks under a new id
+  async duplicateSlot(id: string, name: string): Promise<SaveSlot> {
+    const exported = await this.exportSlotData(id);
+    return this.importSlotData({ ...exported, slot: { ...exported.slot, name } });
+  }
+
+  async exportSlot(id: string): Promise<string> {
+    return JSON.stringify(await this.exportSlotData(id));
+  }
+
+  // Import an exported file as a new slot; throws, writing nothing, if the text is not a
+  // valid world export
+  async importSlot(text: string): Promise<SaveSlot> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('World file is not valid JSON');
+    }
+
+    return this.importSlotData(parseWorldExport(parsed));
+  }
+
+  private async exportSlotData(id: string): Promise<WorldExport> {
+    const slot = await this.getSlot(id);
+    if (!slot) throw new Error(`World ${id} does not exist`);
+
+    const [player, chunks] = await Promise.all([this.loadPlayer(id), this.loadChunks(id)]);
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      slot,
+      player,
+      blockIds: blockRegistry.getIdMapping(),
+      chunks: Array.from(chunks.entries()).map(([key, data]) => {
+        const [x, z] = key.split(',').map(Number);
+        return { x, z, palette: toStoredPalette(data.palette), cells: encodeCells(data.cells) };
+      })
+    };
+  }
+
+  private async importSlotData(exported: WorldExport): Promise<SaveSlot> {
+    const now = Date.now();
+    const slot: SaveSlot = { ...exported.slot, id: createSlotId(), createdAt: now, lastPlayed: now };
+
+    // Decode everything up front so a damaged chunk fails the import before any write
+    const chunks = exported.chunks.map(chunk => toStoredChunk(slot.id, {
+      x: chunk.x,
+      z: chunk.z,
+      data: this.decodeChunk(chunk)
+    }));
+    const player = exported.player && toStoredPlayer(slot.id, {
+      ...exported.player,
+      inventory: this.remapInventory(exported.player.inventory, exported.blockIds)
+    });
+
+    // One transaction, so a failed import leaves no half-written slot behind
+    const db = await this.open();
+    const transaction = db.transaction([SLOTS, PLAYERS, CHUNKS], 'readwrite');
+    transaction.objectStore(SLOTS).put(slot);
+    if (player) transaction.objectStore(PLAYERS).put(player);
+    chunks.forEach(chunk => transaction.objectStore(CHUNKS).put(chunk));
+    await committed(transaction);
+
+    console.log(`📥 WorldStore: Imported world "${slot.name}" (${slot.id})`);
+    return slot;
+  }
+
+  // Exported cells must fill the chunk and only point into the chunk's palette
+  private decodeChunk({ x, z, palette, cells }: WorldExport['chunks'][number]): ChunkData {
+    let decoded: Uint16Array | undefined;
+    try {
+      decoded = decodeCells(cells);
+    } catch {
+      decoded = undefined; // Not base64, or an odd number of bytes
+    }
+    if (decoded?.length !== ChunkData.VOLUME) {
+      throw damaged(`chunk ${x},${z} does not hold ${ChunkData.VOLUME} blocks`);
+    }
+    if (decoded.some(cell => cell >= palette.length)) {
+      throw damaged(`chunk ${x},${z} uses blocks missing from its palette`);
+    }
+    return new ChunkData(decoded, this.fromStoredPalette(palette));
+  }
+
+  // Current block ids for a saved palette; blocks no longer registered load as air
+  private fromStoredPalette(palette: string[]): number[] {
+    return palette.map(key => {
+      const blockType = blockRegistry.getId(key);
+      if (blockType === undefined) this.reportMissing(key);
+      return blockType ?? 0;
+    });
+  }
+
+  // Translate block items saved under `blockIds` to current ids; stacks of removed blocks are dropped
+  private remapInventory(inventory: InventorySlot[], blockIds: BlockIdMapping): InventorySlot[] {
+    const remap = blockRegistry.createRemap(blockIds, key => this.reportMissing(key));
+    return inventory.map(slot => {
+      if (!slot || slot.itemId >= MAX_BLOCK_TYPES) return slot;
+      const itemId = remap(slot.itemId);
+      return itemId === 0 ? null : { ...slot, itemId };
+    });
+  }
+
+  private reportMissing(key: string): void {
+    if (this.reportedMissing.has(key)) return;
+    this.reportedMissing.add(key);
+    console.warn(`⚠️ WorldStore: Saved block "${key}" is no longer registered, loading it as air`);
+  }
+
+  // Adapter the World uses to write edited chunks into one slot
+  getChunkStore(slotId: string): ChunkStore {
+    return {
+      saveChunks: chunks => this.saveChunks(slotId, chunks)
+    };
+  }
+}
+
+export const worldStore = new WorldStore();
@@ -0,0 +1,25 @@
+// World types offered when creating a save; each maps a seed to a chunk source
+import type { WorldSeed } from '../types/game';
+import type { ChunkSource } from './world';
+import { StableWorldGenerator } from './stableWorldGenerator';
+import { FlatWorldGenerator } from './flatWorldGenerator';
+
+export type WorldType = 'default' | 'noCaves' | 'flat';
+
+export const WORLD_TYPES: Record<WorldType, { name: string; description: string }> = {
+  default: { name: 'Default', description: 'Biomes, caves and ores' },
+  noCaves: { name: 'Solid Ground', description: 'Biomes and ores without caves' },
+  flat: { name: 'Superflat', description: 'Flat grass plane for building tests' }
+};
+
+export function createWorldGenerator(worldType: WorldType, seed: WorldSeed): ChunkSource {
+  switch (worldType) {
+    case 'flat':
+      return new FlatWorldGenerator();
+    case 'noCaves':
+      return new StableWorldGenerator(seed, { caves: false, ores: true });
+    case 'default':
+    default:
+      return new StableWorldGenerator(seed);
+  }
+}